@@ -0,0 +1,25 @@
+// One-shot import of an existing data/ directory into the SQLite store.
+//
+//   npm run db:import -- [dataDir] [sqlitePath]
+//
+// Defaults to ./data and SQLITE_PATH (or data/rent-tracker.db). The JSON files
+// are left untouched; set DATA_STORE=sqlite afterwards to switch over.
+import path from 'path';
+import { loadEnvConfig } from '@next/env';
+import { createJsonStorage, createSqliteStorage, DATA_DIR, getSqlitePath } from '../src/lib/storage';
+import { copyStorage } from '../src/lib/storage/import';
+
+loadEnvConfig(process.cwd());
+
+const [dataDirArg, sqlitePathArg] = process.argv.slice(2);
+const dataDir = dataDirArg ? path.resolve(dataDirArg) : DATA_DIR;
+const sqlitePath = sqlitePathArg ? path.resolve(sqlitePathArg) : getSqlitePath();
+
+console.log(`Importing ${dataDir} -> ${sqlitePath}`);
+
+const summary = copyStorage(createJsonStorage(dataDir), createSqliteStorage(sqlitePath));
+
+for (const [collection, count] of Object.entries(summary)) {
+  console.log(`  ${collection}: ${count}`);
+}
+console.log('Done. Set DATA_STORE=sqlite to use the database.');
@@ -0,0 +1,33 @@
+// Report or apply data schema migrations.
+//
+//   npm run db:status     # show current version and pending migrations
+//   npm run db:migrate    # apply pending migrations
+//
+// Migrations also run automatically when the app starts; this is for checking
+// a data directory (or SQLite database) without starting the server.
+import { loadEnvConfig } from '@next/env';
+import { createStorage, getMigrationStatus, runMigrations } from '../src/lib/storage';
+
+loadEnvConfig(process.cwd());
+
+const storage = createStorage();
+const command = process.argv[2] || 'up';
+
+if (command === 'status') {
+  const status = getMigrationStatus(storage);
+  console.log(`Schema version: ${status.currentVersion} (latest ${status.latestVersion})`);
+  if (status.pending.length === 0) {
+    console.log('No pending migrations.');
+  } else {
+    console.log('Pending migrations:');
+    for (const migration of status.pending) {
+      console.log(`  ${migration.version} ${migration.name} - ${migration.description}`);
+    }
+  }
+} else if (command === 'up') {
+  const applied = runMigrations(storage);
+  console.log(applied.length > 0 ? `Applied migrations: ${applied.join(', ')}` : 'Already up to date.');
+} else {
+  console.error(`Unknown command "${command}". Use "status" or "up".`);
+  process.exit(1);
+}
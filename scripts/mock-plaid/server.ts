@@ -0,0 +1,309 @@
+// A local stand-in for the Plaid API, for developing and testing offline.
+//
+//   npm run plaid:mock                          # listens on MOCK_PLAID_PORT (default 4010)
+//   PLAID_BASE_PATH=http://localhost:4010 npm run dev
+//
+// Items come from the JSON fixtures next to this file (see README.md there).
+// Connect one without Plaid Link by exchanging a public token named after it:
+//
+//   curl -X POST localhost:3000/api/plaid/exchange-token \
+//     -H 'Content-Type: application/json' \
+//     -d '{"publicToken":"public-mock-checking","institutionName":"Mock Bank"}'
+//
+// Fixtures are re-read on every request, so edits apply without a restart.
+// Error counts (how many times a scripted error has been returned) live in
+// memory and reset when the server restarts.
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import { randomBytes } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import type { AccountBase, Transaction } from 'plaid';
+
+const PORT = Number(process.env.MOCK_PLAID_PORT) || 4010;
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
+interface ErrorFixture {
+  error: {
+    error_type: string;
+    error_code: string;
+    error_message: string;
+    display_message?: string | null;
+    status?: number; // HTTP status, 400 by default
+  };
+  times?: number; // how many calls fail before moving past it (1 by default)
+}
+
+interface SyncPageFixture {
+  added?: Partial<Transaction>[];
+  modified?: Partial<Transaction>[];
+  removed?: string[];
+}
+
+interface ItemFixture {
+  institution: { institution_id: string; name: string };
+  accounts: Partial<AccountBase>[];
+  // Each /transactions/sync round (one press of the Sync button) consumes one
+  // batch. Pages within a batch are returned with has_more: true until the last.
+  batches: (SyncPageFixture | ErrorFixture)[][];
+}
+
+class PlaidApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly body: ErrorFixture['error'] & { request_id?: string }
+  ) {
+    super(body.error_message);
+  }
+}
+
+function invalidInput(message: string): PlaidApiError {
+  return new PlaidApiError(400, {
+    error_type: 'INVALID_INPUT',
+    error_code: 'INVALID_FIELD',
+    error_message: message,
+  });
+}
+
+function requestId(): string {
+  return randomBytes(6).toString('hex');
+}
+
+function loadFixture(name: string): ItemFixture | null {
+  const filePath = path.join(FIXTURES_DIR, `${name}.json`);
+  if (!/^[\w-]+$/.test(name) || !existsSync(filePath)) {
+    return null;
+  }
+  return JSON.parse(readFileSync(filePath, 'utf-8'));
+}
+
+// Tokens and item IDs carry the fixture name so the server needs no item
+// state: `access-mock-<fixture>-<nonce>`, `item-mock-<fixture>-<nonce>`.
+// A public token may leave off the nonce (`public-mock-checking`).
+function parseToken(token: unknown, prefix: string): { fixtureName: string; itemId: string } {
+  const match = typeof token === 'string' && token.match(new RegExp(`^${prefix}-mock-([\\w-]+?)(?:-([a-f0-9]+))?$`));
+  if (!match || !loadFixture(match[1])) {
+    throw new PlaidApiError(400, {
+      error_type: 'INVALID_INPUT',
+      error_code: prefix === 'access' ? 'INVALID_ACCESS_TOKEN' : 'INVALID_PUBLIC_TOKEN',
+      error_message: `provided ${prefix} token is in an invalid format`,
+    });
+  }
+  return { fixtureName: match[1], itemId: `item-mock-${match[1]}-${match[2] || '0'}` };
+}
+
+function toAccount(account: Partial<AccountBase>, index: number): AccountBase {
+  return {
+    account_id: `mock-account-${index}`,
+    name: `Mock Account ${index}`,
+    official_name: null,
+    mask: String(1000 + index),
+    type: 'depository' as AccountBase['type'],
+    subtype: 'checking' as AccountBase['subtype'],
+    ...account,
+    balances: {
+      available: null,
+      current: null,
+      limit: null,
+      iso_currency_code: 'USD',
+      unofficial_currency_code: null,
+      ...account.balances,
+    },
+  };
+}
+
+function toTransaction(txn: Partial<Transaction>, fixture: ItemFixture): Transaction {
+  return {
+    transaction_id: `mock-txn-${randomBytes(4).toString('hex')}`,
+    account_id: toAccount(fixture.accounts[0] || {}, 0).account_id,
+    amount: 0,
+    iso_currency_code: 'USD',
+    unofficial_currency_code: null,
+    date: new Date().toISOString().slice(0, 10),
+    name: 'Mock transaction',
+    merchant_name: null,
+    pending: false,
+    pending_transaction_id: null,
+    account_owner: null,
+    authorized_date: null,
+    authorized_datetime: null,
+    datetime: null,
+    payment_channel: 'other' as Transaction['payment_channel'],
+    transaction_code: null,
+    location: {
+      address: null,
+      city: null,
+      region: null,
+      postal_code: null,
+      country: null,
+      lat: null,
+      lon: null,
+      store_number: null,
+    },
+    ...txn,
+    payment_meta: {
+      reference_number: null,
+      ppd_id: null,
+      payee: null,
+      by_order_of: null,
+      payer: null,
+      payment_method: null,
+      payment_processor: null,
+      reason: null,
+      ...txn.payment_meta,
+    },
+  };
+}
+
+// Scripted errors already returned, by `<itemId>:<batch>:<page>`
+const errorsReturned = new Map<string, number>();
+
+function isError(page: SyncPageFixture | ErrorFixture): page is ErrorFixture {
+  return 'error' in page;
+}
+
+// Cursors are `<batch>:<page>`; an empty cursor starts at the first batch
+function syncTransactions(body: Record<string, unknown>) {
+  const { fixtureName, itemId } = parseToken(body.access_token, 'access');
+  const fixture = loadFixture(fixtureName)!;
+
+  const cursor = typeof body.cursor === 'string' && body.cursor ? body.cursor : '0:0';
+  const [batch, startPage] = cursor.split(':').map(Number);
+  if (!Number.isInteger(batch) || !Number.isInteger(startPage)) {
+    throw new PlaidApiError(400, {
+      error_type: 'INVALID_INPUT',
+      error_code: 'INVALID_FIELD',
+      error_message: 'cursor is not valid',
+    });
+  }
+
+  const pages = fixture.batches[batch] || [];
+  let page = startPage;
+
+  // Return the scripted error until it has been returned `times` times, then skip it
+  while (page < pages.length && isError(pages[page])) {
+    const errorPage = pages[page] as ErrorFixture;
+    const key = `${itemId}:${batch}:${page}`;
+    const returned = errorsReturned.get(key) || 0;
+    if (returned < (errorPage.times ?? 1)) {
+      errorsReturned.set(key, returned + 1);
+      const { status, ...error } = errorPage.error;
+      throw new PlaidApiError(status || 400, { display_message: null, ...error });
+    }
+    page++;
+  }
+
+  const data = (pages[page] || {}) as SyncPageFixture;
+  const hasMore = page < pages.length - 1;
+  const nextCursor = batch >= fixture.batches.length
+    ? cursor
+    : hasMore ? `${batch}:${page + 1}` : `${batch + 1}:0`;
+
+  return {
+    transactions_update_status: 'HISTORICAL_UPDATE_COMPLETE',
+    accounts: [],
+    added: (data.added || []).map(txn => toTransaction(txn, fixture)),
+    modified: (data.modified || []).map(txn => toTransaction(txn, fixture)),
+    removed: (data.removed || []).map(id => ({ transaction_id: id })),
+    next_cursor: nextCursor,
+    has_more: hasMore,
+  };
+}
+
+const routes: Record<string, (body: Record<string, unknown>) => object> = {
+  '/link/token/create': () => ({
+    link_token: `link-mock-${randomBytes(8).toString('hex')}`,
+    expiration: new Date(Date.now() + 4 * 60 * 60 * 1000).toISOString(),
+  }),
+
+  '/sandbox/public_token/create': body => {
+    const fixtureName = typeof body.institution_id === 'string' ? body.institution_id : '';
+    if (!loadFixture(fixtureName)) {
+      throw invalidInput(`no fixture named "${fixtureName}" (pass the fixture name as institution_id)`);
+    }
+    return { public_token: `public-mock-${fixtureName}-${randomBytes(4).toString('hex')}` };
+  },
+
+  '/item/public_token/exchange': body => {
+    const { fixtureName, itemId } = parseToken(body.public_token, 'public');
+    const nonce = itemId.slice(`item-mock-${fixtureName}-`.length);
+    return {
+      access_token: `access-mock-${fixtureName}-${nonce}`,
+      item_id: itemId,
+    };
+  },
+
+  '/accounts/get': body => {
+    const { fixtureName, itemId } = parseToken(body.access_token, 'access');
+    const fixture = loadFixture(fixtureName)!;
+    return {
+      accounts: fixture.accounts.map(toAccount),
+      item: {
+        item_id: itemId,
+        institution_id: fixture.institution.institution_id,
+        institution_name: fixture.institution.name,
+        webhook: null,
+        error: null,
+        available_products: [],
+        billed_products: ['transactions'],
+        consent_expiration_time: null,
+        update_type: 'background',
+      },
+    };
+  },
+
+  '/transactions/sync': syncTransactions,
+
+  '/item/remove': body => {
+    parseToken(body.access_token, 'access');
+    return {};
+  },
+};
+
+async function readBody(request: IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString('utf-8');
+  try {
+    return text ? JSON.parse(text) : {};
+  } catch {
+    throw invalidInput('request body is not valid JSON');
+  }
+}
+
+function send(response: ServerResponse, status: number, body: object) {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify({ ...body, request_id: requestId() }));
+}
+
+const server = createServer(async (request, response) => {
+  const route = routes[request.url || ''];
+  try {
+    if (request.method !== 'POST' || !route) {
+      throw new PlaidApiError(404, {
+        error_type: 'INVALID_REQUEST',
+        error_code: 'NOT_FOUND',
+        error_message: `${request.method} ${request.url} is not implemented by the mock Plaid server`,
+      });
+    }
+    send(response, 200, route(await readBody(request)));
+    console.log(`${request.method} ${request.url} 200`);
+  } catch (error) {
+    if (error instanceof PlaidApiError) {
+      send(response, error.status, error.body);
+      console.log(`${request.method} ${request.url} ${error.status} ${error.body.error_code}`);
+    } else {
+      console.error(`Error handling ${request.url}:`, error);
+      send(response, 500, {
+        error_type: 'API_ERROR',
+        error_code: 'INTERNAL_SERVER_ERROR',
+        error_message: 'mock Plaid server error',
+      });
+    }
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock Plaid server listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,33 @@
+// Re-encrypt every stored Plaid access token (including those of deleted
+// accounts still waiting to be removed from Plaid) under the current master key.
+//
+//   1. Move the old key from TOKEN_ENCRYPTION_KEY to TOKEN_ENCRYPTION_OLD_KEYS
+//   2. Set a new TOKEN_ENCRYPTION_KEY (openssl rand -base64 32)
+//   3. npm run tokens:rotate
+//   4. Remove the old key from TOKEN_ENCRYPTION_OLD_KEYS
+//
+// Tokens still stored in plain text are encrypted as well.
+import { loadEnvConfig } from '@next/env';
+import { createStorage } from '../src/lib/storage';
+import { reencryptSecret } from '../src/lib/secrets';
+
+loadEnvConfig(process.cwd());
+
+const storage = createStorage();
+
+const rotated = storage.transaction(() => {
+  let count = 0;
+  for (const account of storage.getAccounts()) {
+    if (!account.accessToken) continue; // CSV accounts have no token
+    storage.saveAccount({ ...account, accessToken: reencryptSecret(account.accessToken) });
+    count++;
+  }
+  for (const removal of storage.getItemRemovals()) {
+    if (!removal.accessToken) continue; // already revoked
+    storage.saveItemRemoval({ ...removal, accessToken: reencryptSecret(removal.accessToken) });
+    count++;
+  }
+  return count;
+});
+
+console.log(`Re-encrypted ${rotated} access token${rotated === 1 ? '' : 's'}.`);
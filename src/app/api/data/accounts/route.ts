@@ -1,21 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import {
-  getAccounts,
-  deleteAccount,
-  getTransactions,
-  getTenantTransactions,
-  getRejectedMatches,
-  deleteCsvUploadsForAccount,
-} from '@/lib/data';
-import fs from 'fs';
-import path from 'path';
-
-const DATA_DIR = path.join(process.cwd(), 'data');
-
-function writeJsonFile<T>(filename: string, data: T): void {
-  const filePath = path.join(DATA_DIR, filename);
-  fs.writeFileSync(filePath, JSON.stringify(data, null, 2));
-}
+import { getAccounts, getItemRemovals, deleteAccount, setLinkedAccountExcluded } from '@/lib/data';
+import { revokeItem } from '@/lib/itemRemoval';
+import { setAuditContext } from '@/lib/audit';
 
 export async function GET() {
   try {
@@ -32,42 +18,61 @@ export async function GET() {
   }
 }
 
-export async function DELETE(request: NextRequest) {
+// PATCH: Stop or resume tracking one linked account
+// ({ id, linkedAccountId, excluded, purge? }; purge removes its synced transactions)
+export async function PATCH(request: NextRequest) {
+  setAuditContext(request, 'user');
+
   try {
-    const { id } = await request.json();
+    const { id, linkedAccountId, excluded, purge } = await request.json();
 
-    // Get all transactions for this account (by itemId)
-    const allTransactions = getTransactions();
-    const transactionsToDelete = allTransactions.filter(t => t.itemId === id);
-    const transactionIdsToDelete = new Set(transactionsToDelete.map(t => t.transactionId));
+    if (!id || !linkedAccountId || typeof excluded !== 'boolean') {
+      return NextResponse.json(
+        { error: 'id, linkedAccountId and excluded are required' },
+        { status: 400 }
+      );
+    }
 
-    // Remove transactions belonging to this account
-    const remainingTransactions = allTransactions.filter(t => t.itemId !== id);
-    writeJsonFile('transactions.json', remainingTransactions);
+    const account = getAccounts().find(a => a.id === id);
+    if (!account?.linkedAccounts.some(l => l.accountId === linkedAccountId)) {
+      return NextResponse.json(
+        { error: 'Linked account not found' },
+        { status: 404 }
+      );
+    }
 
-    // Remove tenant-transaction links for deleted transactions
-    const tenantTransactions = getTenantTransactions();
-    const remainingTenantTransactions = tenantTransactions.filter(
-      tt => !transactionIdsToDelete.has(tt.transactionId)
-    );
-    writeJsonFile('tenant-transactions.json', remainingTenantTransactions);
+    const purgedTransactions = setLinkedAccountExcluded(account.itemId, linkedAccountId, excluded, purge === true);
 
-    // Remove rejected matches for deleted transactions
-    const rejectedMatches = getRejectedMatches();
-    const remainingRejectedMatches = rejectedMatches.filter(
-      rm => !transactionIdsToDelete.has(rm.transactionId)
+    return NextResponse.json({
+      success: true,
+      purgedTransactions,
+    });
+  } catch (error) {
+    console.error('Error updating linked account:', error);
+    return NextResponse.json(
+      { error: 'Failed to update linked account' },
+      { status: 500 }
     );
-    writeJsonFile('rejected-matches.json', remainingRejectedMatches);
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  setAuditContext(request, 'user');
+
+  try {
+    const { id } = await request.json();
 
-    // Delete CSV upload metadata for this account
-    deleteCsvUploadsForAccount(id);
+    // Deletes the account with its transactions, links and CSV uploads in one go
+    const deletedTransactions = deleteAccount(id);
 
-    // Finally, delete the account
-    deleteAccount(id);
+    // Then revoke a Plaid item; if Plaid can't be reached it stays pending for a retry
+    const removal = getItemRemovals().find(r => r.itemId === id && r.status === 'pending');
+    const revocation = removal ? (await revokeItem(removal)).status : null;
 
     return NextResponse.json({
       success: true,
-      deletedTransactions: transactionsToDelete.length
+      deletedTransactions,
+      revocation,
     });
   } catch (error) {
     console.error('Error deleting account:', error);
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuditLog } from '@/lib/data';
+import type { AuditEntityType, AuditSource } from '@/lib/storage';
+
+// Keyed by the type so that a new entity type can't be left out of the filter
+const ENTITY_TYPE_KEYS: Record<AuditEntityType, true> = {
+  account: true,
+  tenant: true,
+  rentPayment: true,
+  transaction: true,
+  syncCursor: true,
+  tenantTransaction: true,
+  rejectedMatch: true,
+  csvUpload: true,
+  dailyBalance: true,
+  itemRemoval: true,
+  store: true,
+};
+const ENTITY_TYPES = Object.keys(ENTITY_TYPE_KEYS) as AuditEntityType[];
+
+const SOURCES: AuditSource[] = ['user', 'auto-match', 'plaid-sync', 'csv-import', 'restore', 'system'];
+
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT = 1000;
+
+// Entries are stored with UTC ISO timestamps; plain dates get `timeOfDay` appended
+function toTimestamp(value: string, timeOfDay: string): string {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}${timeOfDay}` : new Date(value).toISOString();
+}
+
+// GET: Audit log entries, newest first.
+// Filters: ?entity=transaction&entityId=...&source=user&from=YYYY-MM-DD&to=YYYY-MM-DD&limit=200
+// (from/to also accept full ISO timestamps; a plain `to` date includes that whole day)
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const entity = searchParams.get('entity');
+    const source = searchParams.get('source');
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    const limit = Number(searchParams.get('limit') || DEFAULT_LIMIT);
+
+    if (entity && !ENTITY_TYPES.includes(entity as AuditEntityType)) {
+      return NextResponse.json(
+        { error: `entity must be one of: ${ENTITY_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (source && !SOURCES.includes(source as AuditSource)) {
+      return NextResponse.json(
+        { error: `source must be one of: ${SOURCES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if ((from && isNaN(Date.parse(from))) || (to && isNaN(Date.parse(to)))) {
+      return NextResponse.json(
+        { error: 'from and to must be dates (YYYY-MM-DD) or ISO timestamps' },
+        { status: 400 }
+      );
+    }
+    if (!Number.isInteger(limit) || limit < 1) {
+      return NextResponse.json(
+        { error: 'limit must be a positive whole number' },
+        { status: 400 }
+      );
+    }
+
+    const entries = getAuditLog({
+      entityType: (entity as AuditEntityType) || undefined,
+      entityId: searchParams.get('entityId') || undefined,
+      source: (source as AuditSource) || undefined,
+      from: from ? toTimestamp(from, 'T00:00:00.000Z') : undefined,
+      to: to ? toTimestamp(to, 'T23:59:59.999Z') : undefined,
+      limit: Math.min(limit, MAX_LIMIT),
+    });
+
+    return NextResponse.json(entries);
+  } catch (error) {
+    console.error('Error reading audit log:', error);
+    return NextResponse.json(
+      { error: 'Failed to read audit log' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createBackup } from '@/lib/backup';
+
+// GET: Download every collection as a single gzipped, checksummed archive.
+// Pass ?includeSecrets=false to leave out Plaid access tokens.
+export async function GET(request: NextRequest) {
+  try {
+    const includeSecrets = request.nextUrl.searchParams.get('includeSecrets') !== 'false';
+    const archive = createBackup({ includeSecrets });
+    const filename = `rent-tracker-backup-${new Date().toISOString().split('T')[0]}.json.gz`;
+
+    return new NextResponse(new Uint8Array(archive), {
+      headers: {
+        'Content-Type': 'application/gzip',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error creating backup:', error);
+    return NextResponse.json(
+      { error: 'Failed to create backup' },
+      { status: 500 }
+    );
+  }
+}
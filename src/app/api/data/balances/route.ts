@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDailyBalances, getDailyBalancesForAccount } from '@/lib/data';
+
+// GET - Daily balance history, oldest first (optionally for one linked accountId)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const accountId = searchParams.get('accountId');
+
+    const balances = accountId ? getDailyBalancesForAccount(accountId) : getDailyBalances();
+    balances.sort((a, b) => a.date.localeCompare(b.date));
+
+    return NextResponse.json(balances);
+  } catch (error) {
+    console.error('Error getting balances:', error);
+    return NextResponse.json(
+      { error: 'Failed to get balances' },
+      { status: 500 }
+    );
+  }
+}
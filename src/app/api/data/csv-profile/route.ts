@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAccounts, setCsvProfile, type CsvProfile } from '@/lib/data';
+import { getCSVProfileError } from '@/lib/csv';
+import { setAuditContext } from '@/lib/audit';
+
+function findCsvAccount(accountId: unknown) {
+  return getAccounts().find(a => a.id === accountId && !a.accessToken);
+}
+
+// PUT: Save how a CSV account's uploads are read ({ accountId, profile });
+// later uploads to it use this instead of guessing from the header
+export async function PUT(request: NextRequest) {
+  setAuditContext(request, 'user');
+
+  try {
+    const { accountId, profile } = await request.json();
+
+    const profileError = getCSVProfileError(profile);
+    if (!accountId || profileError) {
+      return NextResponse.json(
+        { error: accountId ? profileError : 'accountId is required' },
+        { status: 400 }
+      );
+    }
+
+    const account = findCsvAccount(accountId);
+    if (!account) {
+      return NextResponse.json({ error: 'CSV account not found' }, { status: 404 });
+    }
+
+    const saved: CsvProfile = {
+      name: profile.name.trim(),
+      dateColumn: profile.dateColumn.trim(),
+      descriptionColumn: profile.descriptionColumn.trim(),
+      amountColumn: profile.amountColumn?.trim() || null,
+      debitColumn: profile.debitColumn?.trim() || null,
+      creditColumn: profile.creditColumn?.trim() || null,
+      balanceColumn: profile.balanceColumn?.trim() || null,
+      typeColumn: profile.typeColumn?.trim() || null,
+      dateFormat: profile.dateFormat,
+      amountSign: profile.amountSign,
+    };
+    setCsvProfile(account.itemId, saved);
+
+    return NextResponse.json({ success: true, profile: saved });
+  } catch (error) {
+    console.error('Error saving CSV profile:', error);
+    return NextResponse.json(
+      { error: 'Failed to save CSV profile' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Forget a CSV account's profile ({ accountId }); the next upload
+// detects the columns again
+export async function DELETE(request: NextRequest) {
+  setAuditContext(request, 'user');
+
+  try {
+    const { accountId } = await request.json();
+
+    const account = findCsvAccount(accountId);
+    if (!account) {
+      return NextResponse.json({ error: 'CSV account not found' }, { status: 404 });
+    }
+
+    setCsvProfile(account.itemId, null);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error resetting CSV profile:', error);
+    return NextResponse.json(
+      { error: 'Failed to reset CSV profile' },
+      { status: 500 }
+    );
+  }
+}
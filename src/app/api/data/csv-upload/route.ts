@@ -1,16 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { saveAccount, saveTransactions, getTransactions, saveCsvUpload, Account, Transaction, CsvUpload } from '@/lib/data';
+import { saveAccount, saveTransactions, getAccounts, getStoredTransactionIds, saveCsvUpload, getDailyBalancesForAccount, saveDailyBalances, withTransaction, Account, LinkedAccount, Transaction, CsvUpload, CsvProfile } from '@/lib/data';
+import { setAuditContext } from '@/lib/audit';
+import { DEFAULT_CURRENCY, isCurrencyCode } from '@/lib/currency';
+import { detectCSVProfile, getCSVHeaders, getCSVProfileError, parseCSV, type SkippedRow } from '@/lib/csv';
+import { isOFX, parseOFX, type ParsedOFX } from '@/lib/ofx';
+import { isQIF, parseQIF, type ParsedQIF } from '@/lib/qif';
+import { isCamt, parseCamt } from '@/lib/camt';
+import { isMT940, parseMT940 } from '@/lib/mt940';
+import { getClosingBalance, toDailyBalances, type ParsedStatement } from '@/lib/statement';
 import { v4 as uuidv4 } from 'uuid';
 import { createHash } from 'crypto';
 
-interface ParsedTransaction {
-  date: string;
-  description: string;
-  amount: number;
-  type: string;
-  balance: string;
-}
-
 // Create a deterministic hash for transaction ID based on content
 function createTransactionHash(
   accountMask: string,
@@ -25,247 +25,86 @@ function createTransactionHash(
   return `csv-${hash}`;
 }
 
-function parseCSV(content: string): ParsedTransaction[] {
-  const lines = content.trim().split('\n');
-  if (lines.length < 2) {
-    throw new Error('CSV file must have a header row and at least one data row');
-  }
-
-  // Parse header to find column indices
-  const header = lines[0].toLowerCase();
-  const headerCols = parseCSVLine(header);
-
-  // Find relevant columns - try common column names
-  // Order matters - more specific names should come first
-  const dateColNames = ['posting date', 'posted date', 'transaction date', 'trans date', 'date'];
-  // IMPORTANT: 'description' must come before 'details' - Chase has both columns
-  // 'details' in Chase just says "DEBIT" or "CREDIT", 'description' has the actual info
-  const descColNames = ['description', 'desc', 'memo', 'payee', 'name', 'transaction', 'details'];
-  const amountColNames = ['amount', 'amt', 'transaction amount'];
-  const debitColNames = ['debit', 'withdrawal', 'withdrawals', 'money out'];
-  const creditColNames = ['credit', 'deposit', 'deposits', 'money in'];
-  const typeColNames = ['type', 'transaction type', 'trans type'];
-  const balanceColNames = ['balance', 'running balance', 'account balance'];
-
-  let dateIdx = findColumnIndex(headerCols, dateColNames);
-  let descIdx = findColumnIndex(headerCols, descColNames);
-  let amountIdx = findColumnIndex(headerCols, amountColNames);
-  let debitIdx = findColumnIndex(headerCols, debitColNames);
-  let creditIdx = findColumnIndex(headerCols, creditColNames);
-  let typeIdx = findColumnIndex(headerCols, typeColNames);
-  let balanceIdx = findColumnIndex(headerCols, balanceColNames);
-
-  // Validate we found the necessary columns
-  if (dateIdx === -1) {
-    throw new Error('Could not find a date column. Expected columns like: Date, Transaction Date, Posted Date');
-  }
-  if (descIdx === -1) {
-    throw new Error('Could not find a description column. Expected columns like: Description, Memo, Name');
-  }
-  if (amountIdx === -1 && debitIdx === -1 && creditIdx === -1) {
-    throw new Error('Could not find an amount column. Expected columns like: Amount, Debit, Credit');
-  }
-
-  // Detect if this is a Chase-style CSV (has 'details' column with DEBIT/CREDIT values)
-  // Chase uses: positive = deposit (credit), negative = withdrawal (debit)
-  // Plaid uses: positive = withdrawal (debit), negative = deposit (credit)
-  // So for Chase CSVs, we need to flip the sign
-  const detailsIdx = headerCols.findIndex(h => h.trim() === 'details');
-  const isChaseFormat = detailsIdx !== -1;
-
-  const transactions: ParsedTransaction[] = [];
-
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-
-    const cols = parseCSVLine(line);
-
-    // Parse date
-    const dateStr = cols[dateIdx]?.trim();
-    if (!dateStr) continue;
-
-    const date = parseDate(dateStr);
-    if (!date) {
-      console.warn(`Skipping row ${i + 1}: could not parse date "${dateStr}"`);
-      continue;
-    }
-
-    // Parse description
-    const description = cols[descIdx]?.trim() || 'Unknown';
+// An ID for a record without one of its own, hashed from its content. Repeats
+// of the same content within a file are counted so each one imports.
+function createOccurrenceId(prefix: string, key: string, occurrences: Map<string, number>): string {
+  const occurrence = (occurrences.get(key) || 0) + 1;
+  occurrences.set(key, occurrence);
+  return `${prefix}-${createHash('sha256').update(`${key}|${occurrence}`).digest('hex').slice(0, 16)}`;
+}
 
-    // Parse type and balance for hash generation
-    const type = typeIdx !== -1 ? (cols[typeIdx]?.trim() || '') : '';
-    const balance = balanceIdx !== -1 ? (cols[balanceIdx]?.trim() || '') : '';
+// A statement row read from the file, whatever its format
+interface ImportRow {
+  row: number;
+  transactionId: string;
+  date: string;
+  description: string;
+  merchantName?: string;   // camt.053 and MT940: who paid (or was paid)
+  amount: number;
+}
 
-    // Skip transactions with no balance (likely pending)
-    if (balanceIdx !== -1 && !balance) {
-      console.warn(`Skipping row ${i + 1}: no balance (likely pending transaction)`);
-      continue;
-    }
+// Rows of a preview (see POST with dryRun)
+interface PreviewRow extends ImportRow {
+  duplicate: boolean;      // already imported, or earlier in the same file
+}
 
-    // Parse amount
-    let amount: number;
-    if (amountIdx !== -1) {
-      amount = parseAmount(cols[amountIdx]);
+// POST: Import a CSV, OFX, QFX, QIF, camt.053 or MT940 file into the account named by
+// institutionName and accountMask (created on its first upload). Fields: file,
+// institutionName, accountName, accountMask, and optionally currency, profile
+// (a CSV column mapping as JSON, to use and save instead of the account's) and
+// dryRun ("true" returns what would be imported without saving anything).
+// OFX, camt.053 and MT940 files fill in the institution, mask and currency
+// when they're left out.
+export async function POST(request: NextRequest) {
+  setAuditContext(request, 'csv-import');
 
-      // For Chase-style CSVs, flip the sign to match Plaid convention
-      // Chase: positive = money in (deposit), negative = money out (debit)
-      // Plaid: positive = money out (debit), negative = money in (deposit)
-      if (isChaseFormat) {
-        amount = -amount;
-      }
-    } else {
-      // Separate debit/credit columns
-      const debit = debitIdx !== -1 ? parseAmount(cols[debitIdx]) : 0;
-      const credit = creditIdx !== -1 ? parseAmount(cols[creditIdx]) : 0;
-      // Debits are money out (positive in Plaid), Credits are money in (negative in Plaid)
-      amount = debit - credit;
-    }
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file') as File;
+    const accountName = formData.get('accountName') as string;
+    const currency = (formData.get('currency') as string | null)?.trim().toUpperCase();
+    const profileField = formData.get('profile') as string | null;
+    const dryRun = formData.get('dryRun') === 'true';
 
-    if (isNaN(amount)) {
-      console.warn(`Skipping row ${i + 1}: could not parse amount`);
-      continue;
+    if (!file) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
     }
 
-    transactions.push({ date, description, amount, type, balance });
-  }
-
-  return transactions;
-}
+    // Read file content
+    const content = await file.text();
 
-function parseCSVLine(line: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-
-    if (char === '"') {
-      if (inQuotes && line[i + 1] === '"') {
-        // Escaped quote
-        current += '"';
-        i++;
-      } else {
-        inQuotes = !inQuotes;
+    let ofx: ParsedOFX | null = null;
+    if (isOFX(content)) {
+      try {
+        ofx = parseOFX(content);
+      } catch (err) {
+        return NextResponse.json({ error: err instanceof Error ? err.message : 'Failed to parse OFX' }, { status: 400 });
       }
-    } else if (char === ',' && !inQuotes) {
-      result.push(current);
-      current = '';
-    } else {
-      current += char;
     }
-  }
-  result.push(current);
 
-  return result.map(s => s.trim().replace(/^"|"$/g, ''));
-}
-
-function findColumnIndex(headers: string[], possibleNames: string[]): number {
-  // First pass: try exact matches (prioritized by order in possibleNames)
-  for (const name of possibleNames) {
-    for (let i = 0; i < headers.length; i++) {
-      const header = headers[i].toLowerCase().trim();
-      if (header === name) {
-        return i;
+    let qif: ParsedQIF | null = null;
+    if (!ofx && isQIF(content)) {
+      try {
+        qif = parseQIF(content);
+      } catch (err) {
+        return NextResponse.json({ error: err instanceof Error ? err.message : 'Failed to parse QIF' }, { status: 400 });
       }
     }
-  }
 
-  // Second pass: try partial matches (prioritized by order in possibleNames)
-  for (const name of possibleNames) {
-    for (let i = 0; i < headers.length; i++) {
-      const header = headers[i].toLowerCase().trim();
-      if (header.includes(name)) {
-        return i;
+    let statement: ParsedStatement | null = null;
+    if (!ofx && !qif && (isCamt(content) || isMT940(content))) {
+      try {
+        statement = isCamt(content) ? parseCamt(content) : parseMT940(content);
+      } catch (err) {
+        return NextResponse.json({ error: err instanceof Error ? err.message : 'Failed to parse statement' }, { status: 400 });
       }
     }
-  }
 
-  return -1;
-}
-
-function parseDate(dateStr: string): string | null {
-  // Try various date formats
-  const formats = [
-    // MM/DD/YYYY
-    /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/,
-    // MM-DD-YYYY
-    /^(\d{1,2})-(\d{1,2})-(\d{4})$/,
-    // YYYY-MM-DD
-    /^(\d{4})-(\d{1,2})-(\d{1,2})$/,
-    // YYYY/MM/DD
-    /^(\d{4})\/(\d{1,2})\/(\d{1,2})$/,
-    // MM/DD/YY
-    /^(\d{1,2})\/(\d{1,2})\/(\d{2})$/,
-  ];
-
-  for (const format of formats) {
-    const match = dateStr.match(format);
-    if (match) {
-      let year: number, month: number, day: number;
-
-      if (format.source.startsWith('^(\\d{4})')) {
-        // YYYY-MM-DD or YYYY/MM/DD format
-        year = parseInt(match[1]);
-        month = parseInt(match[2]);
-        day = parseInt(match[3]);
-      } else if (match[3].length === 2) {
-        // MM/DD/YY format
-        month = parseInt(match[1]);
-        day = parseInt(match[2]);
-        year = 2000 + parseInt(match[3]);
-      } else {
-        // MM/DD/YYYY or MM-DD-YYYY format
-        month = parseInt(match[1]);
-        day = parseInt(match[2]);
-        year = parseInt(match[3]);
-      }
-
-      // Validate
-      if (month < 1 || month > 12 || day < 1 || day > 31) {
-        continue;
-      }
-
-      return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
-    }
-  }
-
-  // Try native Date parsing as fallback
-  const parsed = new Date(dateStr);
-  if (!isNaN(parsed.getTime())) {
-    return parsed.toISOString().split('T')[0];
-  }
-
-  return null;
-}
-
-function parseAmount(amountStr: string | undefined): number {
-  if (!amountStr) return 0;
-
-  // Remove currency symbols, commas, and whitespace
-  const cleaned = amountStr.replace(/[$,\s]/g, '').trim();
-
-  // Handle parentheses as negative (accounting format)
-  if (cleaned.startsWith('(') && cleaned.endsWith(')')) {
-    return -parseFloat(cleaned.slice(1, -1));
-  }
-
-  return parseFloat(cleaned);
-}
-
-export async function POST(request: NextRequest) {
-  try {
-    const formData = await request.formData();
-    const file = formData.get('file') as File;
-    const institutionName = formData.get('institutionName') as string;
-    const accountName = formData.get('accountName') as string;
-    const accountMask = formData.get('accountMask') as string;
-
-    if (!file) {
-      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
-    }
+    const fromFile = ofx || statement;
+    const institutionName = (formData.get('institutionName') as string) || fromFile?.institution || '';
+    const accountMask = (formData.get('accountMask') as string)
+      || fromFile?.accountNumber?.replace(/[^A-Za-z0-9]/g, '').slice(-4)
+      || '';
 
     if (!institutionName || !accountName) {
       return NextResponse.json({ error: 'Institution name and account name are required' }, { status: 400 });
@@ -275,21 +114,21 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Last 4 digits of account number are required' }, { status: 400 });
     }
 
-    // Read file content
-    const content = await file.text();
-
-    // Parse CSV
-    let parsedTransactions: ParsedTransaction[];
-    try {
-      parsedTransactions = parseCSV(content);
-    } catch (err) {
-      return NextResponse.json({
-        error: err instanceof Error ? err.message : 'Failed to parse CSV'
-      }, { status: 400 });
+    if (currency && !isCurrencyCode(currency)) {
+      return NextResponse.json({ error: 'Currency must be a 3-letter code, like USD or EUR' }, { status: 400 });
     }
 
-    if (parsedTransactions.length === 0) {
-      return NextResponse.json({ error: 'No transactions found in CSV' }, { status: 400 });
+    let requestedProfile: CsvProfile | null = null;
+    if (profileField) {
+      try {
+        requestedProfile = JSON.parse(profileField);
+      } catch {
+        return NextResponse.json({ error: 'profile must be JSON' }, { status: 400 });
+      }
+      const profileError = getCSVProfileError(requestedProfile);
+      if (profileError) {
+        return NextResponse.json({ error: `Invalid profile: ${profileError}` }, { status: 400 });
+      }
     }
 
     // Create a deterministic account ID based on institution + account mask
@@ -301,73 +140,210 @@ export async function POST(request: NextRequest) {
     const accountId = `csv-acct-${accountIdHash}`;
     const itemId = `csv-item-${accountIdHash}`;
 
+    // Uploads to an existing account keep its currency unless one is given
+    const existingAccount = getAccounts().find(a => a.id === itemId);
+    const existingLinked = existingAccount?.linkedAccounts.find(la => la.accountId === accountId);
+    const isoCurrencyCode = currency
+      || existingLinked?.isoCurrencyCode
+      || (fromFile?.currency && isCurrencyCode(fromFile.currency) ? fromFile.currency : null)
+      || DEFAULT_CURRENCY;
+
+    const savedProfile = existingAccount?.csvProfile || null;
+    let profile: CsvProfile | null = null;
+    let rows: ImportRow[];
+    let skipped: SkippedRow[];
+
+    if (ofx) {
+      // The bank's FITID identifies a transaction across downloads
+      rows = ofx.transactions.map(t => ({
+        row: t.row,
+        transactionId: `ofx-${accountIdHash}-${t.fitId}`,
+        date: t.date,
+        description: t.description,
+        amount: t.amount,
+      }));
+      skipped = ofx.skipped;
+    } else if (qif) {
+      // QIF records have no ID, so hash their content like CSV rows, counting
+      // repeats so two identical payments on one day both import
+      const occurrences = new Map<string, number>();
+      rows = qif.transactions.map(t => ({
+        row: t.row,
+        transactionId: createOccurrenceId('qif', `${accountMask}|${t.date}|${t.description}|${t.amount}|${t.number}`, occurrences),
+        date: t.date,
+        description: t.description,
+        amount: t.amount,
+      }));
+      skipped = qif.skipped;
+    } else if (statement) {
+      // The bank's entry reference identifies a booking; the few without one
+      // are hashed like QIF records
+      const occurrences = new Map<string, number>();
+      const format = statement.format;
+      rows = statement.transactions.map(t => ({
+        row: t.row,
+        transactionId: t.reference
+          ? `${format}-${accountIdHash}-${t.reference}`
+          : createOccurrenceId(format, `${accountMask}|${t.date}|${t.description}|${t.amount}`, occurrences),
+        date: t.date,
+        description: t.description,
+        merchantName: t.counterparty || undefined,
+        amount: t.amount,
+      }));
+      skipped = statement.skipped;
+    } else {
+      // Parse CSV with the mapping sent, the account's saved one, or one detected
+      // from the header on its first upload (whichever is used is saved with the
+      // account below). Failures include the header so the mapping can be fixed.
+      profile = requestedProfile || savedProfile;
+      try {
+        profile = profile || detectCSVProfile(content, institutionName);
+        const parsed = parseCSV(content, profile);
+        // Deterministic IDs based on content
+        rows = parsed.transactions.map(t => ({
+          row: t.row,
+          transactionId: createTransactionHash(accountMask, t.date, t.description, t.amount, t.type, t.balance),
+          date: t.date,
+          description: t.description,
+          amount: t.amount,
+        }));
+        skipped = parsed.skipped;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to parse CSV';
+        return NextResponse.json({
+          error: savedProfile && !requestedProfile ? `${message}. Check the account's column mapping.` : message,
+          headers: getCSVHeaders(content),
+          profile,
+        }, { status: 400 });
+      }
+    }
+
+    if (rows.length === 0 && !dryRun) {
+      return NextResponse.json({ error: 'No transactions found in the file' }, { status: 400 });
+    }
+
+    // A statement's latest closing balance becomes the account's balance,
+    // unless a later one is already in its history (an older statement)
+    const closing = statement ? getClosingBalance(statement.balances) : null;
+    const latestRecorded = getDailyBalancesForAccount(accountId).map(b => b.date).sort().pop();
+    const balance = closing && (!latestRecorded || closing.date >= latestRecorded)
+      ? { current: closing.current, available: closing.available }
+      : existingLinked?.balance ?? null;
+
+    // A first upload creates the account; later ones keep what's already
+    // there (whether it's excluded, when it was added) and change only what
+    // comes from the upload
+    const linkedAccount: LinkedAccount = {
+      accountId: accountId,
+      name: accountName,
+      officialName: accountName,
+      type: 'depository',
+      subtype: 'checking',
+      excluded: false,
+      ...existingLinked,
+      mask: accountMask,
+      balance, // only statements (camt.053, MT940) carry balances we can trust
+      isoCurrencyCode,
+    };
     const account: Account = {
       id: itemId,
-      institution: institutionName,
       institutionId: null,
       accessToken: '', // No access token for CSV imports
       itemId: itemId,
-      linkedAccounts: [{
-        accountId: accountId,
-        name: accountName,
-        officialName: accountName,
-        type: 'depository',
-        subtype: 'checking',
-        mask: accountMask,
-      }],
       createdAt: new Date().toISOString(),
+      lastErrorCode: null,
+      lastErrorAt: null,
+      needsReauth: false,
+      ...existingAccount,
+      institution: institutionName,
+      linkedAccounts: [
+        ...(existingAccount?.linkedAccounts.filter(la => la.accountId !== accountId) || []),
+        linkedAccount,
+      ],
+      csvProfile: profile || savedProfile, // other formats leave it alone
     };
 
-    // Convert to Transaction format with deterministic IDs based on content
-    const transactions: Transaction[] = parsedTransactions.map((t) => ({
-      transactionId: createTransactionHash(
-        accountMask,
-        t.date,
-        t.description,
-        t.amount,
-        t.type,
-        t.balance
-      ),
+    // Convert to Transaction format
+    const transactions: Transaction[] = rows.map((t) => ({
+      transactionId: t.transactionId,
       accountId: accountId,
       itemId: itemId,
       amount: t.amount,
+      isoCurrencyCode,
       date: t.date,
       name: t.description,
+      merchantName: t.merchantName,
       pending: false,
     }));
 
-    // Save to data layer
-    // saveAccount will update if account already exists
-    saveAccount(account);
-
     // Count existing transactions before saving to report new vs skipped
-    const existingTransactions = getTransactions();
-    const existingIds = new Set(existingTransactions.map((t) => t.transactionId));
-    const newTransactions = transactions.filter(t => !existingIds.has(t.transactionId));
+    // (a row repeated within the file is a duplicate too). An excluded account
+    // keeps its transactions, so they count as well.
+    const seenIds = getStoredTransactionIds();
+    const duplicate = transactions.map(t => {
+      if (seenIds.has(t.transactionId)) return true;
+      seenIds.add(t.transactionId);
+      return false;
+    });
+    const newTransactions = transactions.filter((_, i) => !duplicate[i]);
     const skippedCount = transactions.length - newTransactions.length;
 
-    // saveTransactions will skip duplicates (same transactionId)
-    saveTransactions(transactions);
+    if (dryRun) {
+      const previewRows: PreviewRow[] = rows.map((t, i) => ({ ...t, duplicate: duplicate[i] }));
+      return NextResponse.json({
+        preview: true,
+        format: ofx ? 'ofx' : qif ? 'qif' : statement?.format || 'csv',
+        accountId: account.id,
+        isNewAccount: !existingAccount,
+        institutionName,
+        accountMask,
+        profile,
+        headers: profile ? getCSVHeaders(content) : [],
+        isoCurrencyCode,
+        rows: previewRows,
+        skippedRows: skipped,
+        balances: statement?.balances || [],
+        transactionCount: transactions.length,
+        newTransactions: newTransactions.length,
+        skippedDuplicates: skippedCount,
+        // Money in among the rows that would be imported
+        depositTotal: newTransactions.reduce((sum, t) => sum + (t.amount < 0 ? -t.amount : 0), 0),
+      });
+    }
 
     // Calculate date range from transactions
     const dates = transactions.map(t => t.date).sort();
     const dateRangeStart = dates[0] || '';
     const dateRangeEnd = dates[dates.length - 1] || '';
 
-    // Save CSV upload metadata (only if there are new transactions)
-    if (newTransactions.length > 0) {
-      const csvUpload: CsvUpload = {
-        id: uuidv4(),
-        accountId: itemId,
-        filename: file.name,
-        uploadedAt: new Date().toISOString(),
-        dateRangeStart,
-        dateRangeEnd,
-        transactionCount: newTransactions.length,
-        transactionIds: newTransactions.map(t => t.transactionId),
-      };
-      saveCsvUpload(csvUpload);
-    }
+    // Save to data layer, all or nothing: an account without its transactions
+    // (or transactions without the upload record that lets them be removed)
+    // would be left if one write failed
+    withTransaction(() => {
+      // saveAccount will update if account already exists
+      saveAccount(account);
+
+      saveTransactions(newTransactions);
+
+      if (statement) {
+        saveDailyBalances(toDailyBalances(statement.balances, accountId, itemId));
+      }
+
+      // Save CSV upload metadata (only if there are new transactions)
+      if (newTransactions.length > 0) {
+        const csvUpload: CsvUpload = {
+          id: uuidv4(),
+          accountId: itemId,
+          filename: file.name,
+          uploadedAt: new Date().toISOString(),
+          dateRangeStart,
+          dateRangeEnd,
+          transactionCount: newTransactions.length,
+          transactionIds: newTransactions.map(t => t.transactionId),
+        };
+        saveCsvUpload(csvUpload);
+      }
+    });
 
     return NextResponse.json({
       success: true,
@@ -375,6 +351,7 @@ export async function POST(request: NextRequest) {
       transactionCount: transactions.length,
       newTransactions: newTransactions.length,
       skippedDuplicates: skippedCount,
+      skippedRows: skipped.length,
     });
   } catch (error) {
     console.error('CSV upload error:', error);
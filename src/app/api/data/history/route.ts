@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCommandHistory, undoCommand, redoCommand } from '@/lib/data';
+import { HistoryConflictError } from '@/lib/storage';
+import { setAuditContext } from '@/lib/audit';
+
+// GET: Commands that can be undone and redone, most recent first
+export async function GET() {
+  try {
+    return NextResponse.json(getCommandHistory());
+  } catch (error) {
+    console.error('Error getting command history:', error);
+    return NextResponse.json(
+      { error: 'Failed to get command history' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Undo or redo the most recent command ({ action: 'undo' | 'redo' })
+export async function POST(request: NextRequest) {
+  setAuditContext(request, 'user');
+
+  try {
+    const { action } = await request.json();
+
+    if (action !== 'undo' && action !== 'redo') {
+      return NextResponse.json(
+        { error: "action must be 'undo' or 'redo'" },
+        { status: 400 }
+      );
+    }
+
+    const command = action === 'undo' ? undoCommand() : redoCommand();
+    if (!command) {
+      return NextResponse.json(
+        { error: `Nothing to ${action}` },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, command });
+  } catch (error) {
+    if (error instanceof HistoryConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error('Error applying command history:', error);
+    return NextResponse.json(
+      { error: 'Failed to update command history' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getRentPayments, getRentPaymentsForMonth, saveRentPayment, type RentPayment } from '@/lib/data';
+import { setAuditContext } from '@/lib/audit';
 
 export async function GET(request: NextRequest) {
   try {
@@ -18,6 +19,8 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+  setAuditContext(request, 'user');
+
   try {
     const payment: RentPayment = await request.json();
 
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseBackup, restoreBackup, type BackupArchive } from '@/lib/backup';
+import { setAuditContext } from '@/lib/audit';
+
+// POST: Restore a backup archive (multipart: file, mode = 'replace' | 'merge')
+export async function POST(request: NextRequest) {
+  setAuditContext(request, 'restore');
+
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file') as File;
+    const mode = formData.get('mode') || 'merge';
+
+    if (!file) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+
+    if (mode !== 'replace' && mode !== 'merge') {
+      return NextResponse.json({ error: 'Mode must be "replace" or "merge"' }, { status: 400 });
+    }
+
+    let archive: BackupArchive;
+    try {
+      archive = parseBackup(Buffer.from(await file.arrayBuffer()));
+    } catch (err) {
+      return NextResponse.json({
+        error: err instanceof Error ? err.message : 'Invalid backup file'
+      }, { status: 400 });
+    }
+
+    const restored = restoreBackup(archive, mode);
+
+    return NextResponse.json({
+      success: true,
+      mode,
+      createdAt: archive.createdAt,
+      secretsIncluded: archive.secretsIncluded,
+      restored,
+    });
+  } catch (error) {
+    console.error('Error restoring backup:', error);
+    return NextResponse.json(
+      { error: 'Failed to restore backup' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { getSchemaStatus } from '@/lib/data';
+
+// GET: Report the stored data schema version and any pending migrations
+export async function GET() {
+  try {
+    return NextResponse.json(getSchemaStatus());
+  } catch (error) {
+    console.error('Error getting schema status:', error);
+    return NextResponse.json(
+      { error: 'Failed to get schema status' },
+      { status: 500 }
+    );
+  }
+}
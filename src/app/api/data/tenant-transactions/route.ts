@@ -1,12 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import {
   getTenantTransactions,
-  getTenantTransactionByTransactionId,
-  addTenantTransaction,
-  removeTenantTransaction,
-  addRejectedMatch,
-  removeRejectedMatch,
+  assignTransaction,
+  unassignTransaction,
+  CurrencyMismatchError,
 } from '@/lib/data';
+import { setAuditContext } from '@/lib/audit';
 
 // GET: Get all tenant-transaction links
 export async function GET() {
@@ -16,6 +15,8 @@ export async function GET() {
 
 // POST: Add a transaction to a tenant (manual assignment)
 export async function POST(request: NextRequest) {
+  setAuditContext(request, 'user');
+
   const { tenantId, transactionId } = await request.json();
 
   if (!tenantId || !transactionId) {
@@ -25,15 +26,22 @@ export async function POST(request: NextRequest) {
     );
   }
 
-  // If user manually assigns, remove from rejected list (they changed their mind)
-  removeRejectedMatch(tenantId, transactionId);
-
-  addTenantTransaction(tenantId, transactionId, true); // manual assignment
+  // Manual assignment (also clears any earlier rejection of this match)
+  try {
+    assignTransaction(tenantId, transactionId);
+  } catch (error) {
+    if (error instanceof CurrencyMismatchError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
   return NextResponse.json({ success: true });
 }
 
 // DELETE: Remove a transaction from a tenant
 export async function DELETE(request: NextRequest) {
+  setAuditContext(request, 'user');
+
   const { transactionId } = await request.json();
 
   if (!transactionId) {
@@ -43,14 +51,7 @@ export async function DELETE(request: NextRequest) {
     );
   }
 
-  // Find the tenant this was assigned to before removing
-  const assignment = getTenantTransactionByTransactionId(transactionId);
-
-  if (assignment) {
-    // Add to rejected matches so auto-match won't re-assign
-    addRejectedMatch(assignment.tenantId, transactionId);
-  }
-
-  removeTenantTransaction(transactionId);
+  // Also records a rejected match so auto-match won't re-assign it
+  unassignTransaction(transactionId);
   return NextResponse.json({ success: true });
 }
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getTenants, saveTenant, deleteTenant, removeTenantTransactionsForTenant, removeRejectedMatchesForTenant, reEvaluateTenantMatches, type Tenant } from '@/lib/data';
+import { getTenants, saveTenant, deleteTenant, reEvaluateTenantMatches, type Tenant } from '@/lib/data';
+import { setAuditContext } from '@/lib/audit';
+import { DEFAULT_CURRENCY, isCurrencyCode } from '@/lib/currency';
 
 export async function GET() {
   try {
@@ -15,6 +17,8 @@ export async function GET() {
 }
 
 export async function POST(request: NextRequest) {
+  setAuditContext(request, 'user');
+
   try {
     const tenant: Tenant = await request.json();
 
@@ -26,6 +30,15 @@ export async function POST(request: NextRequest) {
       tenant.id = `tenant-${Date.now()}`;
     }
 
+    if (!tenant.isoCurrencyCode) {
+      tenant.isoCurrencyCode = DEFAULT_CURRENCY;
+    } else if (!isCurrencyCode(tenant.isoCurrencyCode)) {
+      return NextResponse.json(
+        { error: 'isoCurrencyCode must be a 3-letter currency code, like USD or EUR' },
+        { status: 400 }
+      );
+    }
+
     saveTenant(tenant);
 
     // If editing, re-evaluate auto-matched transactions against new criteria
@@ -45,16 +58,12 @@ export async function POST(request: NextRequest) {
 }
 
 export async function DELETE(request: NextRequest) {
+  setAuditContext(request, 'user');
+
   try {
     const { id } = await request.json();
 
-    // Remove all transaction assignments for this tenant
-    removeTenantTransactionsForTenant(id);
-
-    // Remove all rejected matches for this tenant
-    removeRejectedMatchesForTenant(id);
-
-    // Delete the tenant
+    // Delete the tenant with its transaction assignments and rejected matches
     deleteTenant(id);
 
     return NextResponse.json({ success: true });
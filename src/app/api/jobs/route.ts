@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobRuns } from '@/lib/data';
+import { getJobStatuses, isJobName, JobAlreadyRunningError, runJob } from '@/lib/jobs';
+import { setAuditContext } from '@/lib/audit';
+
+const DEFAULT_LIMIT = 50;
+
+// GET: Each background job's schedule, next and last run, plus recent runs of
+// every job, most recent first
+// Filters: ?job=plaid-sync&limit=50
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const job = searchParams.get('job');
+    const limit = Number(searchParams.get('limit') || DEFAULT_LIMIT);
+
+    if (job && !isJobName(job)) {
+      return NextResponse.json(
+        { error: `Unknown job "${job}"` },
+        { status: 400 }
+      );
+    }
+    if (!Number.isInteger(limit) || limit < 1) {
+      return NextResponse.json(
+        { error: 'limit must be a positive whole number' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      jobs: getJobStatuses(),
+      history: getJobRuns().filter(run => !job || run.job === job).slice(0, limit),
+    });
+  } catch (error) {
+    console.error('Error getting jobs:', error);
+    return NextResponse.json(
+      { error: 'Failed to get jobs' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Run a job now ({ job: 'plaid-sync' | 'auto-match' }) and return the
+// finished run; 409 if it's already running
+export async function POST(request: NextRequest) {
+  setAuditContext(request, 'user');
+
+  try {
+    const { job } = await request.json();
+
+    if (!isJobName(job)) {
+      return NextResponse.json(
+        { error: `Unknown job "${job}"` },
+        { status: 400 }
+      );
+    }
+
+    const run = await runJob(job, 'manual');
+    return NextResponse.json({ success: run.status === 'succeeded', run });
+  } catch (error) {
+    if (error instanceof JobAlreadyRunningError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error('Error running job:', error);
+    return NextResponse.json(
+      { error: 'Failed to run job' },
+      { status: 500 }
+    );
+  }
+}
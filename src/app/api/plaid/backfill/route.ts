@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAccounts } from '@/lib/data';
+import { BackfillAlreadyRunningError, getBackfills, startBackfill } from '@/lib/backfill';
+import { setAuditContext } from '@/lib/audit';
+
+// GET: The latest history re-fetch of each account, with its progress
+export async function GET() {
+  try {
+    return NextResponse.json(getBackfills());
+  } catch (error) {
+    console.error('Error getting backfills:', error);
+    return NextResponse.json(
+      { error: 'Failed to get backfills' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Wipe and re-fetch a Plaid account's transaction history ({ accountId }).
+// Runs in the background; poll GET for progress.
+export async function POST(request: NextRequest) {
+  setAuditContext(request, 'plaid-sync');
+
+  try {
+    const { accountId } = await request.json();
+
+    const account = getAccounts().find(a => a.id === accountId);
+    if (!account || !account.accessToken) {
+      return NextResponse.json(
+        { error: 'No Plaid connection found for that account' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(startBackfill(account), { status: 202 });
+  } catch (error) {
+    if (error instanceof BackfillAlreadyRunningError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error('Error starting backfill:', error);
+    return NextResponse.json(
+      { error: 'Failed to start re-fetching history' },
+      { status: 500 }
+    );
+  }
+}
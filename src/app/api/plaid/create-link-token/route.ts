@@ -1,16 +1,29 @@
-import { NextResponse } from 'next/server';
-import { plaidClient } from '@/lib/plaid';
-import { Products, CountryCode } from 'plaid';
+import { NextRequest, NextResponse } from 'next/server';
+import { createLinkToken } from '@/lib/plaid';
+import { getAccounts } from '@/lib/data';
 
-export async function POST() {
+// POST: Create a Link token. Send { accountId } to reconnect an existing
+// account (Link update mode) instead of adding a new one, and { languages }
+// (e.g. navigator.languages) to show Link in the first one it's offered in.
+export async function POST(request: NextRequest) {
   try {
-    const response = await plaidClient.linkTokenCreate({
-      user: { client_user_id: 'user-' + Date.now() },
-      client_name: 'Rent Payment Tracker',
-      products: [Products.Transactions],
-      country_codes: [CountryCode.Us],
-      language: 'en',
-    });
+    const { accountId, languages } = await request.json().catch(() => ({}));
+
+    let account;
+    if (accountId) {
+      account = getAccounts().find(a => a.id === accountId);
+      if (!account || !account.accessToken) {
+        return NextResponse.json(
+          { error: 'No Plaid connection found for that account' },
+          { status: 404 }
+        );
+      }
+    }
+
+    const response = await createLinkToken(
+      account,
+      Array.isArray(languages) ? languages.filter((l: unknown): l is string => typeof l === 'string') : undefined
+    );
 
     return NextResponse.json({ linkToken: response.data.link_token });
   } catch (error) {
@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { plaidClient } from '@/lib/plaid';
-import { saveAccount, type Account, type LinkedAccount } from '@/lib/data';
+import { exchangePublicToken, getLinkedAccounts } from '@/lib/plaid';
+import { recordBalances, saveAccount, type Account } from '@/lib/data';
+import { setAuditContext } from '@/lib/audit';
 
 export async function POST(request: NextRequest) {
+  setAuditContext(request, 'user');
+
   try {
     const { publicToken, institutionName, institutionId } = await request.json();
 
@@ -13,27 +16,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Exchange public token for access token
-    const exchangeResponse = await plaidClient.itemPublicTokenExchange({
-      public_token: publicToken,
-    });
-
-    const accessToken = exchangeResponse.data.access_token;
-    const itemId = exchangeResponse.data.item_id;
-
-    // Fetch the linked accounts
-    const accountsResponse = await plaidClient.accountsGet({
-      access_token: accessToken,
-    });
+    // Exchange public token for access token (encrypted before it's stored)
+    const { accessToken, itemId } = await exchangePublicToken(publicToken);
 
-    const linkedAccounts: LinkedAccount[] = accountsResponse.data.accounts.map(acc => ({
-      accountId: acc.account_id,
-      name: acc.name,
-      officialName: acc.official_name || null,
-      type: acc.type,
-      subtype: acc.subtype || null,
-      mask: acc.mask || null,
-    }));
+    // Fetch the linked accounts (with their current balances)
+    const linkedAccounts = await getLinkedAccounts({ accessToken });
 
     // Save the account with linked accounts info
     const account: Account = {
@@ -44,9 +31,14 @@ export async function POST(request: NextRequest) {
       itemId,
       linkedAccounts,
       createdAt: new Date().toISOString(),
+      lastErrorCode: null,
+      lastErrorAt: null,
+      needsReauth: false,
+      csvProfile: null,
     };
 
     saveAccount(account);
+    recordBalances(itemId, linkedAccounts);
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPendingRemovals, retryPendingRemovals } from '@/lib/itemRemoval';
+import { setAuditContext } from '@/lib/audit';
+import type { ItemRemoval } from '@/lib/data';
+
+// Never send access tokens to the client
+function withoutToken(removal: ItemRemoval) {
+  return { ...removal, accessToken: undefined };
+}
+
+// GET: Deleted accounts whose Plaid items haven't been revoked yet
+export async function GET() {
+  try {
+    return NextResponse.json(getPendingRemovals().map(withoutToken));
+  } catch (error) {
+    console.error('Error getting pending item removals:', error);
+    return NextResponse.json(
+      { error: 'Failed to get pending item removals' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Retry revoking every pending item; returns those still pending
+export async function POST(request: NextRequest) {
+  setAuditContext(request, 'user');
+
+  try {
+    const stillPending = await retryPendingRemovals();
+    return NextResponse.json({
+      success: stillPending.length === 0,
+      pending: stillPending.map(withoutToken),
+    });
+  } catch (error) {
+    console.error('Error retrying item removals:', error);
+    return NextResponse.json(
+      { error: 'Failed to retry item removals' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLinkedAccounts } from '@/lib/plaid';
+import { getAccounts, recordBalances } from '@/lib/data';
+import { recordItemReconnected } from '@/lib/itemHealth';
+import { setAuditContext } from '@/lib/audit';
+
+// POST: Called after Link update mode succeeds for { accountId }. Clears the
+// account's error state and refreshes its linked accounts, which the user may
+// have changed while reconnecting.
+export async function POST(request: NextRequest) {
+  setAuditContext(request, 'user');
+
+  try {
+    const { accountId } = await request.json();
+
+    const account = getAccounts().find(a => a.id === accountId);
+    if (!account || !account.accessToken) {
+      return NextResponse.json(
+        { error: 'No Plaid connection found for that account' },
+        { status: 404 }
+      );
+    }
+
+    const linkedAccounts = await getLinkedAccounts(account);
+    recordBalances(account.itemId, linkedAccounts);
+    recordItemReconnected(account.itemId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error reconnecting account:', error);
+    return NextResponse.json(
+      { error: 'Failed to reconnect account' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSyncRuns } from '@/lib/data';
+
+const DEFAULT_LIMIT = 20;
+
+// GET: Recent Plaid syncs, most recent first, with each bank connection's outcome
+// Filters: ?limit=20
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Number(searchParams.get('limit') || DEFAULT_LIMIT);
+
+    if (!Number.isInteger(limit) || limit < 1) {
+      return NextResponse.json(
+        { error: 'limit must be a positive whole number' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(getSyncRuns().slice(0, limit));
+  } catch (error) {
+    console.error('Error getting sync runs:', error);
+    return NextResponse.json(
+      { error: 'Failed to get sync runs' },
+      { status: 500 }
+    );
+  }
+}
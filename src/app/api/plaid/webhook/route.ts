@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { verifyWebhook } from '@/lib/plaid';
+import { getAccounts } from '@/lib/data';
+import { syncAccounts } from '@/lib/sync';
+import { autoMatchTransactions } from '@/lib/matching';
+import { recordItemError, recordItemReconnected } from '@/lib/itemHealth';
+import { setAuditContext } from '@/lib/audit';
+
+// POST: Receive Plaid webhooks (registered via PLAID_WEBHOOK_URL in create-link-token).
+// Plaid expects a quick 200, so syncing happens after the response is sent.
+export async function POST(request: NextRequest) {
+  setAuditContext(request, 'plaid-sync');
+
+  try {
+    const body = await request.text();
+
+    if (!(await verifyWebhook(body, request.headers.get('plaid-verification')))) {
+      return NextResponse.json(
+        { error: 'Invalid webhook signature' },
+        { status: 401 }
+      );
+    }
+
+    const { webhook_type, webhook_code, item_id, error, consent_expiration_time } = JSON.parse(body);
+    const account = getAccounts().find(a => a.itemId === item_id);
+
+    if (!account) {
+      console.warn(`Ignoring ${webhook_type} ${webhook_code} webhook for unknown item ${item_id}`);
+      return NextResponse.json({ received: true });
+    }
+
+    switch (`${webhook_type}:${webhook_code}`) {
+      case 'TRANSACTIONS:SYNC_UPDATES_AVAILABLE':
+        after(async () => {
+          try {
+            setAuditContext(request, 'plaid-sync');
+            const [result] = (await syncAccounts([account], 'webhook')).items;
+            if (!result || result.status === 'failed') return;
+            setAuditContext(request, 'auto-match');
+            const matched = autoMatchTransactions();
+            console.log(
+              `Webhook sync for ${account.institution}: ${result.added} added, ` +
+              `${result.modified} modified, ${result.removed} removed, ${matched} matched`
+            );
+          } catch (syncError) {
+            console.error(`Error syncing ${account.institution} from webhook:`, syncError);
+          }
+        });
+        break;
+
+      case 'ITEM:ERROR':
+        console.error(`Plaid reported an error for ${account.institution}:`, error);
+        recordItemError(account.itemId, error?.error_code || 'ITEM_ERROR');
+        break;
+
+      case 'ITEM:PENDING_EXPIRATION':
+        console.warn(
+          `Access to ${account.institution} expires at ${consent_expiration_time}; reconnect it before then`
+        );
+        recordItemError(account.itemId, 'PENDING_EXPIRATION');
+        break;
+
+      case 'ITEM:LOGIN_REPAIRED':
+        recordItemReconnected(account.itemId);
+        break;
+    }
+
+    return NextResponse.json({ received: true });
+  } catch (error) {
+    console.error('Error handling Plaid webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to handle webhook' },
+      { status: 500 }
+    );
+  }
+}
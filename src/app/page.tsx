@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, DragEvent } from 'react';
+import { useState, useEffect, useRef, DragEvent } from 'react';
 import { AppSidebar } from '@/components/app-sidebar';
 import { SidebarProvider, SidebarInset } from '@/components/ui/sidebar';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -9,7 +9,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
-import { RefreshCw, Users, GripVertical, X, Sun, Moon, ChevronDown, ChevronRight, Check, Search, FileDown } from 'lucide-react';
+import { RefreshCw, Users, GripVertical, X, Sun, Moon, ChevronDown, ChevronRight, Check, Search, FileDown, Undo2, Redo2 } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -19,9 +19,12 @@ import {
 import { useTheme } from 'next-themes';
 import { AccountsTab } from '@/components/AccountsTab';
 import { ConfirmDialog } from '@/components/ConfirmDialog';
+import type { CsvProfile } from '@/components/CsvProfileDialog';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Checkbox } from '@/components/ui/checkbox';
 import { DatePicker } from '@/components/ui/date-picker';
+import { toast } from 'sonner';
+import { formatCurrency } from '@/lib/currency';
 
 interface LinkedAccount {
   accountId: string;
@@ -30,6 +33,9 @@ interface LinkedAccount {
   type: string;
   subtype: string | null;
   mask: string | null;
+  balance: { current: number | null; available: number | null } | null;
+  excluded: boolean;
+  isoCurrencyCode: string;
 }
 
 interface Account {
@@ -38,6 +44,10 @@ interface Account {
   institutionId: string | null;
   linkedAccounts: LinkedAccount[];
   createdAt: string;
+  lastErrorCode: string | null;
+  lastErrorAt: string | null;
+  needsReauth: boolean;
+  csvProfile: CsvProfile | null;
 }
 
 interface Tenant {
@@ -50,6 +60,7 @@ interface Tenant {
   accountId: string;
   matchMode: 'searchTerms' | 'exactAmounts';
   exactAmounts: number[];
+  isoCurrencyCode: string;
 }
 
 interface Transaction {
@@ -57,9 +68,20 @@ interface Transaction {
   accountId: string;
   itemId: string;
   amount: number;
+  isoCurrencyCode: string;
   date: string;
   name: string;
   merchantName?: string;
+  originalDescription?: string;
+  authorizedDate?: string;
+  personalFinanceCategory?: { primary: string; detailed: string };
+  paymentMeta?: {
+    payer: string | null;
+    byOrderOf: string | null;
+    referenceNumber: string | null;
+    paymentMethod: string | null;
+  };
+  counterparties?: { name: string; type: string }[];
   displayAmount: number;
   isDeposit: boolean;
 }
@@ -71,6 +93,19 @@ interface TenantTransaction {
   manualOverride: boolean;
 }
 
+// An undoable action (assign, unassign, or a tenant, account or CSV upload delete)
+interface CommandSummary {
+  id: string;
+  operation: string;
+  description: string;
+  createdAt: string;
+}
+
+interface CommandHistory {
+  undo: CommandSummary[]; // most recent first
+  redo: CommandSummary[];
+}
+
 type Tab = 'dashboard' | 'accounts' | 'tenants';
 
 export default function Home() {
@@ -86,6 +121,9 @@ export default function Home() {
   const [dropTargetTenant, setDropTargetTenant] = useState<string | null>(null);
   const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null);
   const [collapsedTenants, setCollapsedTenants] = useState<Set<string>>(new Set());
+  const [history, setHistory] = useState<CommandHistory>({ undo: [], redo: [] });
+  const [applyingHistory, setApplyingHistory] = useState(false);
+  const lastCommandId = useRef<string | null>(null);
 
   const [startDate, setStartDate] = useState<Date>(() => {
     const now = new Date();
@@ -142,12 +180,71 @@ export default function Home() {
     await fetchTenantTransactions();
   };
 
+  const fetchHistory = async (): Promise<CommandHistory> => {
+    const res = await fetch('/api/data/history');
+    const data: CommandHistory = await res.json();
+    setHistory(data);
+    lastCommandId.current = data.undo[0]?.id || null;
+    return data;
+  };
+
+  // Undo/redo can touch any collection, so reload everything afterwards
+  const refreshAll = async () => {
+    await fetchAccounts();
+    await fetchTenants();
+    await fetchTransactions();
+    await fetchAllTransactions();
+    await fetchTenantTransactions();
+  };
+
+  const applyHistory = async (action: 'undo' | 'redo') => {
+    setApplyingHistory(true);
+    try {
+      const res = await fetch('/api/data/history', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        toast(`${action === 'undo' ? 'Undone' : 'Redone'}: ${data.command.description}`, {
+          action: {
+            label: action === 'undo' ? 'Redo' : 'Undo',
+            onClick: () => applyHistory(action === 'undo' ? 'redo' : 'undo'),
+          },
+        });
+      } else {
+        toast.error(data.error || `Failed to ${action}`);
+      }
+      await refreshAll();
+      await fetchHistory();
+    } catch (error) {
+      console.error(`Error during ${action}:`, error);
+      toast.error(`Failed to ${action}`);
+    }
+    setApplyingHistory(false);
+  };
+
+  // Show what the last action changed, with a shortcut to undo it
+  const announceCommand = async () => {
+    const previousId = lastCommandId.current;
+    const data = await fetchHistory();
+    const command = data.undo[0];
+    if (command && command.id !== previousId) {
+      toast(command.description, {
+        action: { label: 'Undo', onClick: () => applyHistory('undo') },
+      });
+    }
+  };
+
   useEffect(() => {
     const initializeData = async () => {
       await fetchAccounts();
       await fetchTenants();
       await fetchAllTransactions();
       await runAutoMatch();
+      await fetchHistory();
     };
     initializeData();
   }, []);
@@ -159,7 +256,18 @@ export default function Home() {
   const syncTransactions = async () => {
     setSyncing(true);
     try {
-      await fetch('/api/plaid/transactions', { method: 'POST' });
+      const response = await fetch('/api/plaid/transactions', { method: 'POST' });
+      const result = await response.json();
+      for (const item of result.items ?? []) {
+        if (item.status !== 'failed') continue;
+        toast.error(
+          item.errorCode === 'ITEM_LOGIN_REQUIRED'
+            ? `${item.institution} needs to be reconnected (see Accounts)`
+            : `Failed to sync ${item.institution}`,
+          item.error ? { description: item.error } : undefined
+        );
+      }
+      await fetchAccounts();
       await fetchTransactions();
       await fetchAllTransactions();
       await runAutoMatch();
@@ -170,7 +278,7 @@ export default function Home() {
   };
 
   const assignTransactionToTenant = async (transaction: Transaction, tenantId: string) => {
-    await fetch('/api/data/tenant-transactions', {
+    const res = await fetch('/api/data/tenant-transactions', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
@@ -178,7 +286,13 @@ export default function Home() {
         transactionId: transaction.transactionId,
       }),
     });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      toast.error(data.error || 'Failed to assign transaction');
+      return;
+    }
     await fetchTenantTransactions();
+    await announceCommand();
   };
 
   const removeTransactionFromTenant = async (transactionId: string) => {
@@ -188,6 +302,7 @@ export default function Home() {
       body: JSON.stringify({ transactionId }),
     });
     await fetchTenantTransactions();
+    await announceCommand();
   };
 
   const handleDragStart = (e: DragEvent<HTMLDivElement>, transaction: Transaction) => {
@@ -225,14 +340,21 @@ export default function Home() {
 
   // Apply filters to transactions
   const filteredTransactions = transactions.filter(t => {
-    if (filterAccountIds.length > 0 && !filterAccountIds.includes(t.itemId)) return false;
+    if (filterAccountIds.length > 0 && !filterAccountIds.includes(t.accountId)) return false;
     if (filterMinAmount && t.displayAmount < parseFloat(filterMinAmount)) return false;
     if (filterMaxAmount && t.displayAmount > parseFloat(filterMaxAmount)) return false;
     if (filterSearch) {
       const searchLower = filterSearch.toLowerCase();
-      const nameMatch = t.name.toLowerCase().includes(searchLower);
-      const merchantMatch = t.merchantName?.toLowerCase().includes(searchLower);
-      if (!nameMatch && !merchantMatch) return false;
+      // Payer names from ACH/Zelle details often survive where the description is truncated
+      const searchable = [
+        t.name,
+        t.merchantName,
+        t.originalDescription,
+        t.paymentMeta?.payer,
+        t.paymentMeta?.byOrderOf,
+        ...(t.counterparties ?? []).map(c => c.name),
+      ];
+      if (!searchable.some(text => text?.toLowerCase().includes(searchLower))) return false;
     }
     return true;
   });
@@ -250,11 +372,21 @@ export default function Home() {
       .sort((a, b) => b.date.localeCompare(a.date)); // Most recent first
   };
 
-  const getAccountDisplayName = (itemId: string): string => {
-    const account = accounts.find(a => a.id === itemId);
-    if (!account) return '';
-    const mask = account.linkedAccounts?.[0]?.mask;
-    return `${account.institution}${mask ? ` ****${mask}` : ''}`;
+  // Linked accounts that are being tracked, for the account filter
+  const trackedLinkedAccounts = accounts.flatMap(account =>
+    (account.linkedAccounts || []).filter(l => !l.excluded)
+  );
+
+  const getAccountDisplayName = (accountId: string): string => {
+    for (const account of accounts) {
+      const linked = account.linkedAccounts?.find(l => l.accountId === accountId);
+      if (linked) {
+        // Name the linked account only when the bank connection has several
+        const name = account.linkedAccounts.length > 1 ? `${account.institution} ${linked.name}` : account.institution;
+        return `${name}${linked.mask ? ` ****${linked.mask}` : ''}`;
+      }
+    }
+    return '';
   };
 
   const hasActiveFilters = filterAccountIds.length > 0 || filterMinAmount !== '' || filterMaxAmount !== '' || filterSearch !== '';
@@ -300,15 +432,37 @@ export default function Home() {
       <SidebarInset className="max-h-svh overflow-hidden">
         <header className="flex h-14 items-center justify-between border-b px-6 shrink-0">
           <h1 className="text-lg font-semibold">{getPageTitle()}</h1>
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={() => setTheme(theme === 'dark' ? 'light' : 'dark')}
-            className="h-8 w-8"
-          >
-            <Sun className="h-4 w-4 rotate-0 scale-100 transition-all dark:-rotate-90 dark:scale-0" />
-            <Moon className="absolute h-4 w-4 rotate-90 scale-0 transition-all dark:rotate-0 dark:scale-100" />
-          </Button>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => applyHistory('undo')}
+              disabled={applyingHistory || history.undo.length === 0}
+              title={history.undo[0] ? `Undo: ${history.undo[0].description}` : 'Nothing to undo'}
+              className="h-8 w-8"
+            >
+              <Undo2 className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => applyHistory('redo')}
+              disabled={applyingHistory || history.redo.length === 0}
+              title={history.redo[0] ? `Redo: ${history.redo[0].description}` : 'Nothing to redo'}
+              className="h-8 w-8"
+            >
+              <Redo2 className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setTheme(theme === 'dark' ? 'light' : 'dark')}
+              className="h-8 w-8"
+            >
+              <Sun className="h-4 w-4 rotate-0 scale-100 transition-all dark:-rotate-90 dark:scale-0" />
+              <Moon className="absolute h-4 w-4 rotate-90 scale-0 transition-all dark:rotate-0 dark:scale-100" />
+            </Button>
+          </div>
         </header>
 
         <main className="flex-1 p-6 flex flex-col min-h-0">
@@ -335,20 +489,19 @@ export default function Home() {
                             <ChevronDown className="h-3 w-3 ml-2 opacity-50" />
                           </Button>
                         </PopoverTrigger>
-                        <PopoverContent className="w-[200px] p-2" align="start">
+                        <PopoverContent className="w-[260px] p-2" align="start">
                           <div className="space-y-1">
-                            {accounts.map((account) => {
-                              const mask = account.linkedAccounts?.[0]?.mask;
-                              const isSelected = filterAccountIds.includes(account.id);
+                            {trackedLinkedAccounts.map((linked) => {
+                              const isSelected = filterAccountIds.includes(linked.accountId);
                               return (
                                 <div
-                                  key={account.id}
+                                  key={linked.accountId}
                                   className="flex items-center gap-2 px-2 py-1.5 rounded-sm hover:bg-accent cursor-pointer"
-                                  onClick={() => toggleAccountFilter(account.id)}
+                                  onClick={() => toggleAccountFilter(linked.accountId)}
                                 >
                                   <Checkbox checked={isSelected} />
                                   <span className="text-sm">
-                                    {account.institution}{mask ? ` ****${mask}` : ''}
+                                    {getAccountDisplayName(linked.accountId)}
                                   </span>
                                 </div>
                               );
@@ -374,7 +527,7 @@ export default function Home() {
                       <div className="flex items-center gap-1">
                         <Input
                           type="number"
-                          placeholder="Min $"
+                          placeholder="Min"
                           value={filterMinAmount}
                           onChange={(e) => setFilterMinAmount(e.target.value)}
                           className="h-8 w-20 text-xs"
@@ -382,7 +535,7 @@ export default function Home() {
                         <span className="text-xs text-muted-foreground">-</span>
                         <Input
                           type="number"
-                          placeholder="Max $"
+                          placeholder="Max"
                           value={filterMaxAmount}
                           onChange={(e) => setFilterMaxAmount(e.target.value)}
                           className="h-8 w-20 text-xs"
@@ -451,12 +604,12 @@ export default function Home() {
                                   {!assignedTenant && <GripVertical className="h-4 w-4 shrink-0 text-muted-foreground" />}
                                   <div className="min-w-0 w-0 flex-1">
                                     <p className="font-medium truncate">{txn.name}</p>
-                                    <p className="text-xs text-muted-foreground">{txn.date} · {getAccountDisplayName(txn.itemId)}</p>
+                                    <p className="text-xs text-muted-foreground">{txn.date} · {getAccountDisplayName(txn.accountId)}</p>
                                   </div>
                                 </div>
                                 <div className="text-right ml-3 shrink-0">
                                   <p className="font-semibold text-success whitespace-nowrap">
-                                    ${txn.displayAmount.toLocaleString()}
+                                    {formatCurrency(txn.displayAmount, txn.isoCurrencyCode)}
                                   </p>
                                   {assignedTenant && (
                                     <p className="text-xs text-muted-foreground truncate max-w-[120px]">{assignedTenant.name}</p>
@@ -519,11 +672,11 @@ export default function Home() {
                                     <div className="flex items-center gap-3 ml-2 shrink-0">
                                       {tenantTxns.length > 0 && (
                                         <span className="text-sm font-medium text-success">
-                                          ${totalAmount.toLocaleString()}
+                                          {formatCurrency(totalAmount, tenant.isoCurrencyCode)}
                                         </span>
                                       )}
                                       <span className="text-xs text-muted-foreground">
-                                        ${tenant.expectedRent.toLocaleString()}
+                                        {formatCurrency(tenant.expectedRent, tenant.isoCurrencyCode)}
                                       </span>
                                     </div>
                                   </div>
@@ -547,7 +700,7 @@ export default function Home() {
                                               </div>
                                               <div className="flex items-center gap-2 ml-2 shrink-0">
                                                 <p className="text-sm font-medium text-success whitespace-nowrap">
-                                                  ${txn.displayAmount.toLocaleString()}
+                                                  {formatCurrency(txn.displayAmount, txn.isoCurrencyCode)}
                                                 </p>
                                                 <Button
                                                   variant="ghost"
@@ -609,19 +762,64 @@ export default function Home() {
                           <p className="font-medium">{selectedTransaction.merchantName}</p>
                         </div>
                       )}
+                      {selectedTransaction.originalDescription &&
+                        selectedTransaction.originalDescription !== selectedTransaction.name && (
+                        <div>
+                          <p className="text-sm text-muted-foreground">Bank Description</p>
+                          <p className="font-medium break-words">{selectedTransaction.originalDescription}</p>
+                        </div>
+                      )}
+                      {(selectedTransaction.paymentMeta?.payer || selectedTransaction.paymentMeta?.byOrderOf) && (
+                        <div>
+                          <p className="text-sm text-muted-foreground">Payer</p>
+                          <p className="font-medium">
+                            {selectedTransaction.paymentMeta.payer || selectedTransaction.paymentMeta.byOrderOf}
+                          </p>
+                        </div>
+                      )}
+                      {(selectedTransaction.paymentMeta?.paymentMethod || selectedTransaction.paymentMeta?.referenceNumber) && (
+                        <div className="flex gap-8">
+                          {selectedTransaction.paymentMeta.paymentMethod && (
+                            <div>
+                              <p className="text-sm text-muted-foreground">Payment Method</p>
+                              <p className="font-medium">{selectedTransaction.paymentMeta.paymentMethod}</p>
+                            </div>
+                          )}
+                          {selectedTransaction.paymentMeta.referenceNumber && (
+                            <div>
+                              <p className="text-sm text-muted-foreground">Reference</p>
+                              <p className="font-medium break-all">{selectedTransaction.paymentMeta.referenceNumber}</p>
+                            </div>
+                          )}
+                        </div>
+                      )}
                       <div className="flex gap-8">
                         <div>
                           <p className="text-sm text-muted-foreground">Amount</p>
-                          <p className="font-semibold text-success">${selectedTransaction.displayAmount.toLocaleString()}</p>
+                          <p className="font-semibold text-success">{formatCurrency(selectedTransaction.displayAmount, selectedTransaction.isoCurrencyCode)}</p>
                         </div>
                         <div>
                           <p className="text-sm text-muted-foreground">Date</p>
                           <p className="font-medium">{selectedTransaction.date}</p>
                         </div>
+                        {selectedTransaction.authorizedDate && selectedTransaction.authorizedDate !== selectedTransaction.date && (
+                          <div>
+                            <p className="text-sm text-muted-foreground">Initiated</p>
+                            <p className="font-medium">{selectedTransaction.authorizedDate}</p>
+                          </div>
+                        )}
                       </div>
+                      {selectedTransaction.personalFinanceCategory && (
+                        <div>
+                          <p className="text-sm text-muted-foreground">Category</p>
+                          <p className="font-medium capitalize">
+                            {selectedTransaction.personalFinanceCategory.detailed.replace(/_/g, ' ').toLowerCase()}
+                          </p>
+                        </div>
+                      )}
                       <div>
                         <p className="text-sm text-muted-foreground">Account</p>
-                        <p className="font-medium">{getAccountDisplayName(selectedTransaction.itemId)}</p>
+                        <p className="font-medium">{getAccountDisplayName(selectedTransaction.accountId)}</p>
                       </div>
                     </div>
                   )}
@@ -640,6 +838,7 @@ export default function Home() {
                 await fetchAllTransactions();
                 await runAutoMatch();
               }}
+              onCommand={announceCommand}
             />
           )}
 
@@ -652,6 +851,7 @@ export default function Home() {
               tenantTransactions={tenantTransactions}
               onUpdate={async () => { await fetchTenants(); await fetchTenantTransactions(); }}
               onTenantAddedOrEdited={runAutoMatch}
+              onCommand={announceCommand}
             />
           )}
         </main>
@@ -667,6 +867,7 @@ function TenantsTab({
   tenantTransactions,
   onUpdate,
   onTenantAddedOrEdited,
+  onCommand,
 }: {
   tenants: Tenant[];
   accounts: Account[];
@@ -674,6 +875,7 @@ function TenantsTab({
   tenantTransactions: TenantTransaction[];
   onUpdate: () => void;
   onTenantAddedOrEdited: () => Promise<void>;
+  onCommand: () => Promise<void>;
 }) {
   const [showForm, setShowForm] = useState(false);
   const [editingTenant, setEditingTenant] = useState<Tenant | null>(null);
@@ -696,6 +898,7 @@ function TenantsTab({
     accountId: '',
     matchMode: 'searchTerms' as 'searchTerms' | 'exactAmounts',
     exactAmounts: '',
+    isoCurrencyCode: 'USD',
   });
 
   const resetForm = () => {
@@ -708,6 +911,7 @@ function TenantsTab({
       accountId: accounts[0]?.id || '',
       matchMode: 'searchTerms',
       exactAmounts: '',
+      isoCurrencyCode: accounts[0]?.linkedAccounts[0]?.isoCurrencyCode || 'USD',
     });
     setEditingTenant(null);
     setShowForm(false);
@@ -721,8 +925,9 @@ function TenantsTab({
       tolerance: tenant.tolerance.toString(),
       searchTerms: tenant.searchTerms.join(', '),
       accountId: tenant.accountId,
-      matchMode: tenant.matchMode || 'searchTerms',
-      exactAmounts: (tenant.exactAmounts || []).join(', '),
+      matchMode: tenant.matchMode,
+      exactAmounts: tenant.exactAmounts.join(', '),
+      isoCurrencyCode: tenant.isoCurrencyCode,
     });
     setEditingTenant(tenant);
     setShowForm(true);
@@ -753,6 +958,7 @@ function TenantsTab({
       accountId: formData.accountId,
       matchMode: formData.matchMode,
       exactAmounts: exactAmountsArray,
+      isoCurrencyCode: formData.isoCurrencyCode,
     };
 
     await fetch('/api/data/tenants', {
@@ -774,6 +980,7 @@ function TenantsTab({
     });
     setDeleteTenantId(null);
     onUpdate();
+    await onCommand();
   };
 
   const getTransactionsForTenant = (tenantId: string): Transaction[] => {
@@ -894,7 +1101,7 @@ function TenantsTab({
               {formData.matchMode === 'searchTerms' ? (
                 <>
                   <div className="space-y-1.5">
-                    <Label htmlFor="expectedRent">Expected Rent ($)</Label>
+                    <Label htmlFor="expectedRent">Expected Rent ({formData.isoCurrencyCode})</Label>
                     <Input
                       id="expectedRent"
                       type="number"
@@ -906,7 +1113,7 @@ function TenantsTab({
                   </div>
 
                   <div className="space-y-1.5">
-                    <Label htmlFor="tolerance">Tolerance ($)</Label>
+                    <Label htmlFor="tolerance">Tolerance ({formData.isoCurrencyCode})</Label>
                     <Input
                       id="tolerance"
                       type="number"
@@ -915,7 +1122,7 @@ function TenantsTab({
                       placeholder="50"
                     />
                     <p className="text-xs text-muted-foreground">
-                      Match payments within ±${formData.tolerance || '0'} of expected rent
+                      Match payments within ±{formatCurrency(parseFloat(formData.tolerance) || 0, formData.isoCurrencyCode)} of expected rent
                     </p>
                   </div>
 
@@ -935,7 +1142,7 @@ function TenantsTab({
                 </>
               ) : (
                 <div className="md:col-span-2 space-y-1.5">
-                  <Label htmlFor="exactAmounts">Exact Amounts ($)</Label>
+                  <Label htmlFor="exactAmounts">Exact Amounts ({formData.isoCurrencyCode})</Label>
                   <Input
                     id="exactAmounts"
                     value={formData.exactAmounts}
@@ -949,13 +1156,37 @@ function TenantsTab({
                 </div>
               )}
 
+              <div className="space-y-1.5">
+                <Label htmlFor="isoCurrencyCode">Currency</Label>
+                <Input
+                  id="isoCurrencyCode"
+                  value={formData.isoCurrencyCode}
+                  onChange={(e) => setFormData({ ...formData, isoCurrencyCode: e.target.value.toUpperCase().replace(/[^A-Z]/g, '') })}
+                  required
+                  maxLength={3}
+                  pattern="[A-Z]{3}"
+                  placeholder="USD"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Only deposits in this currency are matched
+                </p>
+              </div>
+
               {accounts.length > 0 && (
                 <div className="space-y-1.5">
                   <Label htmlFor="accountId">Account</Label>
                   <select
                     id="accountId"
                     value={formData.accountId}
-                    onChange={(e) => setFormData({ ...formData, accountId: e.target.value })}
+                    onChange={(e) => {
+                      // Rent is usually paid in the account's currency
+                      const account = accounts.find((a) => a.id === e.target.value);
+                      setFormData({
+                        ...formData,
+                        accountId: e.target.value,
+                        isoCurrencyCode: account?.linkedAccounts[0]?.isoCurrencyCode || formData.isoCurrencyCode,
+                      });
+                    }}
                     className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
                   >
                     <option value="">All accounts</option>
@@ -999,7 +1230,7 @@ function TenantsTab({
                   <p className="font-semibold text-sm">{tenant.name}</p>
                   <p className="text-xs text-muted-foreground">{tenant.property}</p>
                   <p className="text-xs text-muted-foreground">
-                    ${tenant.expectedRent.toLocaleString()} ± ${tenant.tolerance}
+                    {formatCurrency(tenant.expectedRent, tenant.isoCurrencyCode)} ± {formatCurrency(tenant.tolerance, tenant.isoCurrencyCode)}
                   </p>
                 </div>
                 <div className="flex items-center gap-2">
@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
   Collapsible,
   CollapsibleContent,
@@ -18,9 +19,15 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
-import { Building2, ChevronDown, Upload, Trash2, FileSpreadsheet } from 'lucide-react';
+import { Building2, ChevronDown, Upload, Trash2, FileSpreadsheet, Download, ArchiveRestore, TriangleAlert, RefreshCw, History, Columns3 } from 'lucide-react';
+import { toast } from 'sonner';
 import { AddAccountDialog } from './AddAccountDialog';
 import { ConfirmDialog } from './ConfirmDialog';
+import { ReconnectButton } from './ReconnectButton';
+import { BalanceTrend } from './BalanceTrend';
+import { CsvProfileDialog, type CsvProfile } from './CsvProfileDialog';
+import { CsvImport } from './CsvImport';
+import { formatCurrency } from '@/lib/currency';
 
 interface LinkedAccount {
   accountId: string;
@@ -29,6 +36,9 @@ interface LinkedAccount {
   type: string;
   subtype: string | null;
   mask: string | null;
+  balance: { current: number | null; available: number | null } | null;
+  excluded: boolean;
+  isoCurrencyCode: string;
 }
 
 interface Account {
@@ -37,6 +47,10 @@ interface Account {
   institutionId: string | null;
   linkedAccounts: LinkedAccount[];
   createdAt: string;
+  lastErrorCode: string | null;
+  lastErrorAt: string | null;
+  needsReauth: boolean;
+  csvProfile: CsvProfile | null;
 }
 
 interface CsvUpload {
@@ -50,21 +64,61 @@ interface CsvUpload {
   transactionIds: string[];
 }
 
+interface DailyBalance {
+  accountId: string;
+  date: string;
+  current: number | null;
+  available: number | null;
+}
+
+interface PendingRemoval {
+  itemId: string;
+  institution: string;
+  requestedAt: string;
+  attempts: number;
+  lastError: string | null;
+}
+
+interface Backfill {
+  accountId: string;
+  institution: string;
+  status: 'running' | 'succeeded' | 'failed';
+  pages: number;
+  fetched: number;
+  historyStatus: string | null;
+  result: { added: number; modified: number; removed: number } | null;
+  errorCode: string | null;
+  error: string | null;
+}
+
 interface AccountsTabProps {
   accounts: Account[];
   onRefresh: () => Promise<void>;
+  onCommand: () => Promise<void>; // after an undoable change (shows an undo toast)
 }
 
-export function AccountsTab({ accounts, onRefresh }: AccountsTabProps) {
+export function AccountsTab({ accounts, onRefresh, onCommand }: AccountsTabProps) {
   const [csvUploads, setCsvUploads] = useState<CsvUpload[]>([]);
+  const [balanceHistory, setBalanceHistory] = useState<DailyBalance[]>([]);
+  const [pendingRemovals, setPendingRemovals] = useState<PendingRemoval[]>([]);
+  const [retryingRemovals, setRetryingRemovals] = useState(false);
+  const [backfills, setBackfills] = useState<Backfill[]>([]);
+  const [backfillTarget, setBackfillTarget] = useState<Account | null>(null);
+  const runningBackfills = useRef<Set<string>>(new Set());
   const [openAccounts, setOpenAccounts] = useState<Set<string>>(new Set());
   const [uploadingToAccount, setUploadingToAccount] = useState<Account | null>(null);
-  const [csvFile, setCsvFile] = useState<File | null>(null);
-  const [uploading, setUploading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [mappingAccount, setMappingAccount] = useState<Account | null>(null);
   const [deleteAccountId, setDeleteAccountId] = useState<string | null>(null);
   const [deleteUploadId, setDeleteUploadId] = useState<string | null>(null);
+  const [excludeTarget, setExcludeTarget] = useState<{ account: Account; linked: LinkedAccount } | null>(null);
+  const [purgeExcluded, setPurgeExcluded] = useState(false);
+  const [includeSecrets, setIncludeSecrets] = useState(true);
+  const [backupFile, setBackupFile] = useState<File | null>(null);
+  const [restoreMode, setRestoreMode] = useState<'merge' | 'replace'>('merge');
+  const [confirmRestore, setConfirmRestore] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [restoreMessage, setRestoreMessage] = useState<string | null>(null);
+  const [restoreError, setRestoreError] = useState<string | null>(null);
 
   const fetchCsvUploads = async () => {
     const res = await fetch('/api/data/csv-uploads');
@@ -72,9 +126,74 @@ export function AccountsTab({ accounts, onRefresh }: AccountsTabProps) {
     setCsvUploads(data);
   };
 
+  const fetchBalanceHistory = async () => {
+    const res = await fetch('/api/data/balances');
+    const data = await res.json();
+    setBalanceHistory(data);
+  };
+
+  const fetchPendingRemovals = async () => {
+    const res = await fetch('/api/plaid/item-removals');
+    const data = await res.json();
+    setPendingRemovals(data);
+  };
+
+  const fetchBackfills = async () => {
+    const res = await fetch('/api/plaid/backfill');
+    const data = await res.json();
+    setBackfills(data);
+  };
+
+  // Announce backfills that were running last time and have now finished
+  useEffect(() => {
+    const finished = backfills.filter(b => b.status !== 'running' && runningBackfills.current.has(b.accountId));
+    runningBackfills.current = new Set(backfills.filter(b => b.status === 'running').map(b => b.accountId));
+    for (const backfill of finished) {
+      if (backfill.status === 'succeeded' && backfill.result) {
+        toast.success(
+          `Re-fetched ${backfill.institution}: ${backfill.result.added} added, ` +
+          `${backfill.result.modified} kept, ${backfill.result.removed} removed`
+        );
+      } else {
+        toast.error(`Failed to re-fetch ${backfill.institution}`, {
+          description: backfill.errorCode || backfill.error || undefined,
+        });
+      }
+    }
+    if (finished.length > 0) {
+      onRefresh();
+    }
+  }, [backfills, onRefresh]);
+
+  const startBackfill = async (account: Account) => {
+    setBackfillTarget(null);
+    const response = await fetch('/api/plaid/backfill', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ accountId: account.id }),
+    });
+    if (!response.ok) {
+      const result = await response.json();
+      toast.error(result.error || `Failed to re-fetch ${account.institution}`);
+    }
+    await fetchBackfills();
+  };
+
+  // Poll while a backfill is running
+  const backfillRunning = backfills.some(b => b.status === 'running');
+  useEffect(() => {
+    if (!backfillRunning) return;
+    const interval = setInterval(fetchBackfills, 1500);
+    return () => clearInterval(interval);
+  }, [backfillRunning]);
+
+  // Accounts are reloaded after every change, including undo/redo (and syncs)
   useEffect(() => {
     fetchCsvUploads();
-  }, []);
+    fetchBalanceHistory();
+    fetchPendingRemovals();
+    fetchBackfills();
+  }, [accounts]);
 
   const toggleAccount = (accountId: string) => {
     setOpenAccounts(prev => {
@@ -89,14 +208,51 @@ export function AccountsTab({ accounts, onRefresh }: AccountsTabProps) {
   };
 
   const deleteAccount = async (accountId: string) => {
-    await fetch('/api/data/accounts', {
+    const response = await fetch('/api/data/accounts', {
       method: 'DELETE',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ id: accountId }),
     });
+    const result = await response.json();
+    if (result.revocation === 'pending') {
+      toast.warning("Account deleted, but the bank connection couldn't be revoked with Plaid yet. Retry it below.");
+    }
     setDeleteAccountId(null);
     await onRefresh();
-    await fetchCsvUploads();
+    await onCommand();
+  };
+
+  const retryPendingRemovals = async () => {
+    setRetryingRemovals(true);
+    try {
+      const response = await fetch('/api/plaid/item-removals', { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error);
+      }
+      if (result.pending.length === 0) {
+        toast.success('Bank connections revoked');
+      } else {
+        toast.error(`${result.pending.length} bank connection${result.pending.length === 1 ? '' : 's'} still couldn't be revoked`);
+      }
+    } catch (error) {
+      console.error('Error retrying item removals:', error);
+      toast.error('Failed to retry revoking bank connections');
+    }
+    await fetchPendingRemovals();
+    setRetryingRemovals(false);
+  };
+
+  const setLinkedAccountExcluded = async (account: Account, linked: LinkedAccount, excluded: boolean, purge = false) => {
+    await fetch('/api/data/accounts', {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ id: account.id, linkedAccountId: linked.accountId, excluded, purge }),
+    });
+    setExcludeTarget(null);
+    setPurgeExcluded(false);
+    await onRefresh();
+    await onCommand();
   };
 
   const deleteCsvUpload = async (uploadId: string) => {
@@ -107,36 +263,29 @@ export function AccountsTab({ accounts, onRefresh }: AccountsTabProps) {
     });
     setDeleteUploadId(null);
     await onRefresh();
-    await fetchCsvUploads();
+    await onCommand();
   };
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      if (!file.name.toLowerCase().endsWith('.csv')) {
-        setError('Please select a CSV file');
-        return;
-      }
-      setCsvFile(file);
-      setError(null);
-    }
+  const handleBackupFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setBackupFile(e.target.files?.[0] || null);
+    setRestoreMessage(null);
+    setRestoreError(null);
   };
 
-  const handleUploadToAccount = async () => {
-    if (!csvFile || !uploadingToAccount) return;
+  const restoreBackup = async () => {
+    if (!backupFile) return;
 
-    setUploading(true);
-    setError(null);
+    setConfirmRestore(false);
+    setRestoring(true);
+    setRestoreMessage(null);
+    setRestoreError(null);
 
     try {
-      const linkedAccount = uploadingToAccount.linkedAccounts[0];
       const formData = new FormData();
-      formData.append('file', csvFile);
-      formData.append('institutionName', uploadingToAccount.institution);
-      formData.append('accountName', linkedAccount?.name || 'Account');
-      formData.append('accountMask', linkedAccount?.mask || '0000');
+      formData.append('file', backupFile);
+      formData.append('mode', restoreMode);
 
-      const response = await fetch('/api/data/csv-upload', {
+      const response = await fetch('/api/data/restore', {
         method: 'POST',
         body: formData,
       });
@@ -144,26 +293,23 @@ export function AccountsTab({ accounts, onRefresh }: AccountsTabProps) {
       const result = await response.json();
 
       if (!response.ok) {
-        throw new Error(result.error || 'Failed to upload CSV');
+        throw new Error(result.error || 'Failed to restore backup');
       }
 
-      setUploadingToAccount(null);
-      setCsvFile(null);
+      setBackupFile(null);
+      setRestoreMessage(
+        `Restored ${result.restored.accounts} accounts, ${result.restored.tenants} tenants and ${result.restored.transactions} transactions` +
+        (result.secretsIncluded ? '.' : '. Bank connections without a saved token will need to be reconnected.')
+      );
       await onRefresh();
       await fetchCsvUploads();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to upload CSV');
+      setRestoreError(err instanceof Error ? err.message : 'Failed to restore backup');
     } finally {
-      setUploading(false);
+      setRestoring(false);
     }
   };
 
-  const closeUploadDialog = () => {
-    setUploadingToAccount(null);
-    setCsvFile(null);
-    setError(null);
-  };
-
   const formatDate = (dateStr: string) => {
     return new Date(dateStr).toLocaleDateString();
   };
@@ -174,6 +320,10 @@ export function AccountsTab({ accounts, onRefresh }: AccountsTabProps) {
     return `${startDate} - ${endDate}`;
   };
 
+  const formatBalance = (amount: number | null, currency: string) => {
+    return amount === null ? '—' : formatCurrency(amount, currency);
+  };
+
   // Check if account is a CSV account (has uploads)
   const isCsvAccount = (accountId: string) => {
     return accountId.startsWith('csv-');
@@ -207,6 +357,8 @@ export function AccountsTab({ accounts, onRefresh }: AccountsTabProps) {
             const uploads = getUploadsForAccount(account.id);
             const isOpen = openAccounts.has(account.id);
             const isCsv = isCsvAccount(account.id);
+            const statementAccount = isCsv && account.linkedAccounts[0]?.balance ? account.linkedAccounts[0] : null;
+            const backfill = backfills.find(b => b.accountId === account.id);
 
             return (
               <Card key={account.id} className="py-0 gap-0 overflow-hidden">
@@ -223,9 +375,33 @@ export function AccountsTab({ accounts, onRefresh }: AccountsTabProps) {
                               {account.linkedAccounts[0].mask && ` ****${account.linkedAccounts[0].mask}`}
                             </p>
                           )}
+                          {!isCsv && (account.needsReauth || account.lastErrorCode) && (
+                            <p className="text-xs text-destructive flex items-center gap-1">
+                              <TriangleAlert className="h-3 w-3" />
+                              {account.needsReauth ? 'Reconnect needed' : 'Sync error'}
+                              {account.lastErrorCode && ` · ${account.lastErrorCode}`}
+                            </p>
+                          )}
                         </div>
                       </div>
                       <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+                        {!isCsv && (account.needsReauth || account.lastErrorCode) && (
+                          <ReconnectButton
+                            accountId={account.id}
+                            institution={account.institution}
+                            onReconnected={onRefresh}
+                          />
+                        )}
+                        {isCsv && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={(e) => { e.stopPropagation(); setMappingAccount(account); }}
+                            title={account.csvProfile ? `Column mapping: ${account.csvProfile.name}` : 'Column mapping'}
+                          >
+                            <Columns3 className="h-4 w-4" />
+                          </Button>
+                        )}
                         {isCsv && (
                           <Button
                             variant="outline"
@@ -252,48 +428,129 @@ export function AccountsTab({ accounts, onRefresh }: AccountsTabProps) {
                     <Separator />
                     <div className="p-4 bg-muted/30">
                       {isCsv ? (
-                        uploads.length > 0 ? (
-                          <div className="space-y-2">
-                            <p className="text-sm font-medium text-muted-foreground mb-3">CSV Uploads</p>
-                            {uploads.map((upload) => (
-                              <div
-                                key={upload.id}
-                                className="flex items-center justify-between p-3 bg-background rounded-md border"
-                              >
-                                <div className="flex items-center gap-3">
-                                  <FileSpreadsheet className="h-4 w-4 text-muted-foreground" />
-                                  <div>
-                                    <p className="text-sm font-medium">{upload.filename}</p>
-                                    <p className="text-xs text-muted-foreground">
-                                      {formatDateRange(upload.dateRangeStart, upload.dateRangeEnd)} · {upload.transactionCount} transactions
-                                    </p>
+                        <>
+                          {statementAccount?.balance && (
+                            <div className="flex items-center justify-between gap-4 p-3 mb-4 bg-background rounded-md border">
+                              <div>
+                                <p className="text-sm font-medium">Statement Balance</p>
+                                <p className="text-xs text-muted-foreground">
+                                  {formatBalance(statementAccount.balance.current, statementAccount.isoCurrencyCode)} current
+                                  {statementAccount.balance.available !== null && ` · ${formatBalance(statementAccount.balance.available, statementAccount.isoCurrencyCode)} available`}
+                                </p>
+                              </div>
+                              <BalanceTrend
+                                balances={balanceHistory.filter(b => b.accountId === statementAccount.accountId).slice(-90)}
+                                currency={statementAccount.isoCurrencyCode}
+                              />
+                            </div>
+                          )}
+                          {uploads.length > 0 ? (
+                            <div className="space-y-2">
+                              <p className="text-sm font-medium text-muted-foreground mb-3">CSV Uploads</p>
+                              {uploads.map((upload) => (
+                                <div
+                                  key={upload.id}
+                                  className="flex items-center justify-between p-3 bg-background rounded-md border"
+                                >
+                                  <div className="flex items-center gap-3">
+                                    <FileSpreadsheet className="h-4 w-4 text-muted-foreground" />
+                                    <div>
+                                      <p className="text-sm font-medium">{upload.filename}</p>
+                                      <p className="text-xs text-muted-foreground">
+                                        {formatDateRange(upload.dateRangeStart, upload.dateRangeEnd)} · {upload.transactionCount} transactions
+                                      </p>
+                                      <p className="text-xs text-muted-foreground">
+                                        Uploaded {formatDate(upload.uploadedAt)}
+                                      </p>
+                                    </div>
+                                  </div>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => setDeleteUploadId(upload.id)}
+                                    className="text-destructive hover:text-destructive"
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                </div>
+                              ))}
+                            </div>
+                          ) : (
+                            <p className="text-sm text-muted-foreground text-center py-4">
+                              No CSV uploads yet. Click &quot;Upload CSV&quot; to add transactions.
+                            </p>
+                          )}
+                        </>
+                      ) : (
+                        <div className="space-y-4">
+                          {account.linkedAccounts.map((linked) => (
+                            <div
+                              key={linked.accountId}
+                              className="flex items-center justify-between gap-4 p-3 bg-background rounded-md border"
+                            >
+                              <div className="flex items-start gap-3">
+                                <Checkbox
+                                  checked={!linked.excluded}
+                                  onCheckedChange={(checked) => checked
+                                    ? setLinkedAccountExcluded(account, linked, false)
+                                    : setExcludeTarget({ account, linked })}
+                                  title={linked.excluded ? 'Not tracked' : 'Tracked'}
+                                  className="mt-0.5"
+                                />
+                                <div className={linked.excluded ? 'opacity-50' : undefined}>
+                                  <p className="text-sm font-medium">
+                                    {linked.name}
+                                    {linked.mask && <span className="text-muted-foreground"> ****{linked.mask}</span>}
+                                  </p>
+                                  {linked.excluded ? (
+                                    <p className="text-xs text-muted-foreground">Not tracked; its transactions are hidden</p>
+                                  ) : linked.balance ? (
                                     <p className="text-xs text-muted-foreground">
-                                      Uploaded {formatDate(upload.uploadedAt)}
+                                      {formatBalance(linked.balance.current, linked.isoCurrencyCode)} current
+                                      {linked.balance.available !== null && ` · ${formatBalance(linked.balance.available, linked.isoCurrencyCode)} available`}
                                     </p>
-                                  </div>
+                                  ) : (
+                                    <p className="text-xs text-muted-foreground">Balance not synced yet</p>
+                                  )}
                                 </div>
-                                <Button
-                                  variant="ghost"
-                                  size="sm"
-                                  onClick={() => setDeleteUploadId(upload.id)}
-                                  className="text-destructive hover:text-destructive"
-                                >
-                                  <Trash2 className="h-4 w-4" />
-                                </Button>
                               </div>
-                            ))}
+                              {!linked.excluded && (
+                                <BalanceTrend
+                                  balances={balanceHistory.filter(b => b.accountId === linked.accountId).slice(-90)}
+                                  currency={linked.isoCurrencyCode}
+                                />
+                              )}
+                            </div>
+                          ))}
+                          <div className="flex items-start justify-between gap-4 text-sm text-muted-foreground">
+                            <div>
+                              <p>Connected via Plaid</p>
+                              <p className="text-xs mt-1">
+                                Transactions sync automatically when you click &quot;Sync Transactions&quot; on the Dashboard.
+                              </p>
+                              {backfill?.status === 'running' && (
+                                <p className="text-xs mt-1 text-foreground">
+                                  Re-fetching history… {backfill.pages} page{backfill.pages === 1 ? '' : 's'}, {backfill.fetched} transactions
+                                  {backfill.historyStatus && backfill.historyStatus !== 'HISTORICAL_UPDATE_COMPLETE' &&
+                                    ' (Plaid is still pulling older history from the bank)'}
+                                </p>
+                              )}
+                              {backfill?.status === 'failed' && (
+                                <p className="text-xs mt-1 text-destructive">
+                                  Re-fetching history failed · {backfill.errorCode || backfill.error}
+                                </p>
+                              )}
+                            </div>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setBackfillTarget(account)}
+                              disabled={backfill?.status === 'running'}
+                            >
+                              <History className={`h-4 w-4 mr-1 ${backfill?.status === 'running' ? 'animate-pulse' : ''}`} />
+                              Re-fetch History
+                            </Button>
                           </div>
-                        ) : (
-                          <p className="text-sm text-muted-foreground text-center py-4">
-                            No CSV uploads yet. Click &quot;Upload CSV&quot; to add transactions.
-                          </p>
-                        )
-                      ) : (
-                        <div className="text-sm text-muted-foreground">
-                          <p>Connected via Plaid</p>
-                          <p className="text-xs mt-1">
-                            Transactions sync automatically when you click &quot;Sync Transactions&quot; on the Dashboard.
-                          </p>
                         </div>
                       )}
                     </div>
@@ -305,61 +562,213 @@ export function AccountsTab({ accounts, onRefresh }: AccountsTabProps) {
         </div>
       )}
 
-      {/* Upload CSV to existing account dialog */}
-      <Dialog open={!!uploadingToAccount} onOpenChange={(open) => !open && closeUploadDialog()}>
-        <DialogContent className="sm:max-w-md">
-          <DialogHeader>
-            <DialogTitle>Upload CSV to {uploadingToAccount?.institution}</DialogTitle>
-            <DialogDescription>
-              Upload a new CSV file to add more transactions to this account.
-            </DialogDescription>
-          </DialogHeader>
-          <div className="grid gap-4 py-4">
+      {/* Deleted Plaid accounts whose items are still active */}
+      {pendingRemovals.length > 0 && (
+        <Card className="py-0 gap-0 overflow-hidden">
+          <div className="px-4 py-3 flex items-center justify-between gap-4">
+            <div>
+              <p className="font-semibold text-sm">Pending Revocations</p>
+              <p className="text-xs text-muted-foreground">
+                These accounts were deleted, but Plaid couldn&apos;t be reached to disconnect them
+              </p>
+            </div>
+            <Button variant="outline" size="sm" onClick={retryPendingRemovals} disabled={retryingRemovals}>
+              <RefreshCw className={`h-4 w-4 mr-1 ${retryingRemovals ? 'animate-spin' : ''}`} />
+              Retry
+            </Button>
+          </div>
+          <Separator />
+          <div className="p-4 bg-muted/30 space-y-2">
+            {pendingRemovals.map((removal) => (
+              <div key={removal.itemId} className="text-sm">
+                <p className="font-medium">{removal.institution}</p>
+                <p className="text-xs text-muted-foreground">
+                  Deleted {formatDate(removal.requestedAt)} · {removal.attempts} attempt{removal.attempts === 1 ? '' : 's'}
+                  {removal.lastError && ` · ${removal.lastError}`}
+                </p>
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+
+      {/* Backup & Restore */}
+      <Card className="py-0 gap-0 overflow-hidden">
+        <div className="px-4 py-3">
+          <p className="font-semibold text-sm">Backup &amp; Restore</p>
+          <p className="text-xs text-muted-foreground">
+            Accounts, tenants, transactions, assignments, CSV uploads and sync state in a single file
+          </p>
+        </div>
+        <Separator />
+        <div className="p-4 bg-muted/30 space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <Label className="flex items-center gap-2 font-normal cursor-pointer">
+              <Checkbox
+                checked={includeSecrets}
+                onCheckedChange={(checked) => setIncludeSecrets(checked === true)}
+              />
+              Include bank access tokens
+            </Label>
+            <Button variant="outline" size="sm" asChild>
+              <a href={`/api/data/backup?includeSecrets=${includeSecrets}`} download>
+                <Download className="h-4 w-4 mr-1" />
+                Download Backup
+              </a>
+            </Button>
+          </div>
+          <Separator />
+          <div className="flex flex-wrap items-center justify-between gap-4">
             <label
-              htmlFor="csv-file-upload"
-              className="border-2 border-dashed rounded-lg p-8 text-center cursor-pointer hover:border-primary transition-colors block"
+              htmlFor="backup-file-upload"
+              className="flex items-center gap-2 text-sm cursor-pointer hover:text-primary transition-colors"
             >
               <input
-                id="csv-file-upload"
-                ref={fileInputRef}
+                id="backup-file-upload"
                 type="file"
-                accept=".csv"
-                onChange={handleFileChange}
+                accept=".gz,.json"
+                onChange={handleBackupFileChange}
                 className="sr-only"
               />
-              <Upload className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
-              {csvFile ? (
-                <p className="text-sm font-medium">{csvFile.name}</p>
+              <ArchiveRestore className="h-4 w-4 text-muted-foreground" />
+              {backupFile ? (
+                <span className="font-medium">{backupFile.name}</span>
               ) : (
-                <p className="text-sm text-muted-foreground">
-                  Click to select a CSV file
-                </p>
+                <span className="text-muted-foreground">Choose a backup file</span>
               )}
             </label>
+            <div className="flex items-center gap-2">
+              <Button
+                variant={restoreMode === 'merge' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setRestoreMode('merge')}
+              >
+                Merge
+              </Button>
+              <Button
+                variant={restoreMode === 'replace' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setRestoreMode('replace')}
+              >
+                Replace
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => setConfirmRestore(true)}
+                disabled={!backupFile || restoring}
+              >
+                {restoring ? 'Restoring...' : 'Restore'}
+              </Button>
+            </div>
           </div>
-          {error && <p className="text-sm text-destructive">{error}</p>}
-          <div className="flex justify-end gap-2">
-            <Button variant="outline" onClick={closeUploadDialog}>
-              Cancel
-            </Button>
-            <Button onClick={handleUploadToAccount} disabled={!csvFile || uploading}>
-              {uploading ? 'Uploading...' : 'Upload'}
-            </Button>
-          </div>
+          <p className="text-xs text-muted-foreground">
+            {restoreMode === 'merge'
+              ? 'Merge adds records from the backup and overwrites ones with the same ID. Nothing else is removed.'
+              : 'Replace deletes all current data first, then loads the backup.'}
+          </p>
+          {restoreMessage && <p className="text-sm text-success">{restoreMessage}</p>}
+          {restoreError && <p className="text-sm text-destructive">{restoreError}</p>}
+        </div>
+      </Card>
+
+      {/* Upload CSV to existing account dialog */}
+      <Dialog open={!!uploadingToAccount} onOpenChange={(open) => !open && setUploadingToAccount(null)}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Upload CSV to {uploadingToAccount?.institution}</DialogTitle>
+            <DialogDescription>
+              Upload a new CSV, OFX, QFX, QIF, camt.053 or MT940 file to add more transactions to this account. You&apos;ll see what will be imported before anything is saved.
+            </DialogDescription>
+          </DialogHeader>
+          {uploadingToAccount && (
+            <CsvImport
+              key={uploadingToAccount.id}
+              fields={{
+                institutionName: uploadingToAccount.institution,
+                accountName: uploadingToAccount.linkedAccounts[0]?.name || 'Account',
+                accountMask: uploadingToAccount.linkedAccounts[0]?.mask || '0000',
+              }}
+              backLabel="Cancel"
+              onBack={() => setUploadingToAccount(null)}
+              onImported={async () => {
+                setUploadingToAccount(null);
+                await onRefresh();
+                await fetchCsvUploads();
+                await fetchBalanceHistory();
+              }}
+            />
+          )}
         </DialogContent>
       </Dialog>
 
+      {/* Edit a CSV account's column mapping */}
+      {mappingAccount && (
+        <CsvProfileDialog
+          key={mappingAccount.id}
+          account={mappingAccount}
+          onClose={() => setMappingAccount(null)}
+          onSaved={async () => {
+            await onRefresh();
+            await onCommand();
+          }}
+        />
+      )}
+
       {/* Delete account confirmation */}
       <ConfirmDialog
         open={!!deleteAccountId}
         onOpenChange={(open) => !open && setDeleteAccountId(null)}
         title="Delete Account"
-        description="Are you sure you want to delete this account? This will also delete all transactions and CSV uploads associated with it."
+        description={deleteAccountId && isCsvAccount(deleteAccountId)
+          ? 'Are you sure you want to delete this account? This will also delete all transactions and CSV uploads associated with it.'
+          : 'Are you sure you want to delete this account? This will also delete all of its transactions and disconnect it from Plaid, which can\'t be undone.'}
         confirmLabel="Delete"
         variant="destructive"
         onConfirm={() => deleteAccountId && deleteAccount(deleteAccountId)}
       />
 
+      {/* Wipe and re-fetch a Plaid account's history */}
+      <ConfirmDialog
+        open={!!backfillTarget}
+        onOpenChange={(open) => !open && setBackfillTarget(null)}
+        title="Re-fetch History"
+        description={`All of ${backfillTarget?.institution || 'this account'}'s transaction history will be downloaded from Plaid again and replace what's stored. Tenant assignments are kept for transactions that come back; transactions Plaid no longer has are removed.`}
+        confirmLabel="Re-fetch"
+        onConfirm={() => backfillTarget && startBackfill(backfillTarget)}
+      />
+
+      {/* Stop tracking a linked account */}
+      <ConfirmDialog
+        open={!!excludeTarget}
+        onOpenChange={(open) => { if (!open) { setExcludeTarget(null); setPurgeExcluded(false); } }}
+        title="Stop Tracking Account"
+        description={`Transactions from ${excludeTarget?.linked.name || 'this account'} will no longer be synced, and any already synced will be hidden from the dashboard and auto-matching.`}
+        confirmLabel="Stop Tracking"
+        variant={purgeExcluded ? 'destructive' : 'default'}
+        onConfirm={() => excludeTarget && setLinkedAccountExcluded(excludeTarget.account, excludeTarget.linked, true, purgeExcluded)}
+      >
+        <Label className="flex items-center gap-2 font-normal cursor-pointer">
+          <Checkbox
+            checked={purgeExcluded}
+            onCheckedChange={(checked) => setPurgeExcluded(checked === true)}
+          />
+          Also delete its synced transactions and their tenant assignments
+        </Label>
+      </ConfirmDialog>
+
+      {/* Restore backup confirmation */}
+      <ConfirmDialog
+        open={confirmRestore}
+        onOpenChange={setConfirmRestore}
+        title={restoreMode === 'replace' ? 'Replace All Data' : 'Merge Backup'}
+        description={restoreMode === 'replace'
+          ? 'This will delete all current accounts, tenants and transactions and replace them with the contents of the backup.'
+          : 'Records from the backup will be added, and any with the same ID will be overwritten.'}
+        confirmLabel="Restore"
+        variant={restoreMode === 'replace' ? 'destructive' : 'default'}
+        onConfirm={restoreBackup}
+      />
+
       {/* Delete CSV upload confirmation */}
       <ConfirmDialog
         open={!!deleteUploadId}
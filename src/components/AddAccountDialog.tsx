@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useCallback, useEffect, useRef } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { usePlaidLink, PlaidLinkOnSuccessMetadata } from 'react-plaid-link';
 import { Building2, Upload, Link2 } from 'lucide-react';
 import {
@@ -14,6 +14,7 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { CsvImport } from './CsvImport';
 
 interface AddAccountDialogProps {
   onSuccess: () => void;
@@ -29,12 +30,10 @@ export function AddAccountDialog({ onSuccess }: AddAccountDialogProps) {
   const [accountName, setAccountName] = useState('');
   const [accountMask, setAccountMask] = useState('');
   const [institutionName, setInstitutionName] = useState('');
-  const [csvFile, setCsvFile] = useState<File | null>(null);
-  const [uploading, setUploading] = useState(false);
+  const [currency, setCurrency] = useState('USD');
   const [error, setError] = useState<string | null>(null);
   const [linkToken, setLinkToken] = useState<string | null>(null);
   const [loadingPlaid, setLoadingPlaid] = useState(false);
-  const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Reset state when dialog closes
   const handleOpenChange = (isOpen: boolean) => {
@@ -45,7 +44,7 @@ export function AddAccountDialog({ onSuccess }: AddAccountDialogProps) {
       setAccountName('');
       setAccountMask('');
       setInstitutionName('');
-      setCsvFile(null);
+      setCurrency('USD');
       setError(null);
       setLinkToken(null);
     }
@@ -98,6 +97,8 @@ export function AddAccountDialog({ onSuccess }: AddAccountDialogProps) {
     try {
       const response = await fetch('/api/plaid/create-link-token', {
         method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ languages: navigator.languages }),
       });
       const data = await response.json();
       setLinkToken(data.linkToken);
@@ -126,60 +127,16 @@ export function AddAccountDialog({ onSuccess }: AddAccountDialogProps) {
       setError('Please enter an account name');
       return;
     }
-    if (!accountMask.trim() || accountMask.length !== 4) {
+    if (accountMask && accountMask.length !== 4) {
       setError('Please enter the last 4 digits of the account number');
       return;
     }
-    setError(null);
-    setStep('csv-upload');
-  };
-
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      if (!file.name.toLowerCase().endsWith('.csv')) {
-        setError('Please select a CSV file');
-        return;
-      }
-      setCsvFile(file);
-      setError(null);
-    }
-  };
-
-  const handleUpload = async () => {
-    if (!csvFile) {
-      setError('Please select a CSV file');
+    if (currency && !/^[A-Z]{3}$/.test(currency)) {
+      setError('Please enter a 3-letter currency code, like USD or EUR');
       return;
     }
-
-    setUploading(true);
     setError(null);
-
-    try {
-      const formData = new FormData();
-      formData.append('file', csvFile);
-      formData.append('institutionName', institutionName);
-      formData.append('accountName', accountName);
-      formData.append('accountMask', accountMask);
-
-      const response = await fetch('/api/data/csv-upload', {
-        method: 'POST',
-        body: formData,
-      });
-
-      const result = await response.json();
-
-      if (!response.ok) {
-        throw new Error(result.error || 'Failed to upload CSV');
-      }
-
-      handleOpenChange(false);
-      onSuccess();
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to upload CSV');
-    } finally {
-      setUploading(false);
-    }
+    setStep('csv-upload');
   };
 
   return (
@@ -187,7 +144,7 @@ export function AddAccountDialog({ onSuccess }: AddAccountDialogProps) {
       <DialogTrigger asChild>
         <Button>+ Add Account</Button>
       </DialogTrigger>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className={step === 'csv-upload' ? 'sm:max-w-2xl' : 'sm:max-w-md'}>
         {step === 'choose-method' && (
           <>
             <DialogHeader>
@@ -220,9 +177,9 @@ export function AddAccountDialog({ onSuccess }: AddAccountDialogProps) {
                   <Upload className="h-6 w-6 text-primary" />
                 </div>
                 <div>
-                  <p className="font-medium">Upload CSV</p>
+                  <p className="font-medium">Upload a Statement</p>
                   <p className="text-sm text-muted-foreground">
-                    Import transactions from a bank statement export
+                    Import a CSV, OFX, QFX, QIF, camt.053 or MT940 export
                   </p>
                 </div>
               </button>
@@ -267,7 +224,17 @@ export function AddAccountDialog({ onSuccess }: AddAccountDialogProps) {
                   value={accountMask}
                   onChange={(e) => setAccountMask(e.target.value.replace(/\D/g, ''))}
                 />
-                <p className="text-xs text-muted-foreground">Required for duplicate detection</p>
+                <p className="text-xs text-muted-foreground">Required for duplicate detection. OFX, QFX, camt.053 and MT940 files include it, so it can be left blank for those.</p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="currency">Currency</Label>
+                <Input
+                  id="currency"
+                  placeholder="From the file, or USD"
+                  maxLength={3}
+                  value={currency}
+                  onChange={(e) => setCurrency(e.target.value.toUpperCase().replace(/[^A-Z]/g, ''))}
+                />
               </div>
             </div>
             {error && <p className="text-sm text-destructive">{error}</p>}
@@ -285,48 +252,27 @@ export function AddAccountDialog({ onSuccess }: AddAccountDialogProps) {
         {step === 'csv-upload' && (
           <>
             <DialogHeader>
-              <DialogTitle>Upload CSV</DialogTitle>
+              <DialogTitle>Upload Statement</DialogTitle>
               <DialogDescription>
-                Upload a CSV file exported from your bank. The file should have columns for date, description, and amount.
+                Upload a CSV, OFX, QFX, QIF, camt.053 or MT940 file exported from your bank. A CSV should have columns for date, description, and amount.
               </DialogDescription>
             </DialogHeader>
-            <div className="grid gap-4 py-4">
-              <label
-                htmlFor="csv-file-input"
-                className="border-2 border-dashed rounded-lg p-8 text-center cursor-pointer hover:border-primary transition-colors block"
-              >
-                <input
-                  id="csv-file-input"
-                  ref={fileInputRef}
-                  type="file"
-                  accept=".csv"
-                  onChange={handleFileChange}
-                  className="sr-only"
-                />
-                <Upload className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
-                {csvFile ? (
-                  <p className="text-sm font-medium">{csvFile.name}</p>
-                ) : (
-                  <p className="text-sm text-muted-foreground">
-                    Click to select a CSV file
-                  </p>
-                )}
-              </label>
-              <div className="text-xs text-muted-foreground">
-                <p className="font-medium mb-1">Expected CSV format:</p>
-                <p>Date, Description, Amount (negative for deposits)</p>
-                <p className="mt-1">Most bank exports will work automatically.</p>
-              </div>
-            </div>
-            {error && <p className="text-sm text-destructive">{error}</p>}
-            <div className="flex justify-between">
-              <Button variant="outline" onClick={() => setStep('account-details')}>
-                Back
-              </Button>
-              <Button onClick={handleUpload} disabled={!csvFile || uploading}>
-                {uploading ? 'Uploading...' : 'Upload'}
-              </Button>
-            </div>
+            <CsvImport
+              fields={{ institutionName, accountName, accountMask, currency }}
+              hint={
+                <div className="text-xs text-muted-foreground">
+                  <p className="font-medium mb-1">Expected CSV format:</p>
+                  <p>Date, Description, Amount (negative for deposits)</p>
+                  <p className="mt-1">Most bank exports will work automatically. You&apos;ll see what will be imported before anything is saved.</p>
+                </div>
+              }
+              backLabel="Back"
+              onBack={() => setStep('account-details')}
+              onImported={() => {
+                handleOpenChange(false);
+                onSuccess();
+              }}
+            />
           </>
         )}
       </DialogContent>
@@ -0,0 +1,66 @@
+'use client';
+
+import { formatCurrency } from '@/lib/currency';
+
+interface BalancePoint {
+  date: string;            // YYYY-MM-DD
+  current: number | null;
+}
+
+interface BalanceTrendProps {
+  balances: BalancePoint[]; // oldest first
+  currency: string;
+  width?: number;
+  height?: number;
+}
+
+// A small line chart of a linked account's daily balance
+export function BalanceTrend({ balances, currency, width = 160, height = 40 }: BalanceTrendProps) {
+  const points = balances.filter(
+    (b): b is BalancePoint & { current: number } => b.current !== null
+  );
+
+  if (points.length < 2) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        The trend appears after a second day of syncing
+      </p>
+    );
+  }
+
+  const values = points.map(p => p.current);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1;
+  const padding = 2;
+
+  const coordinates = points.map((p, i) => {
+    const x = (i / (points.length - 1)) * width;
+    const y = padding + (1 - (p.current - min) / range) * (height - padding * 2);
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const trendingUp = last.current >= first.current;
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      className={trendingUp ? 'text-success' : 'text-destructive'}
+      role="img"
+    >
+      <title>{`${formatCurrency(first.current, currency)} on ${first.date} to ${formatCurrency(last.current, currency)} on ${last.date}`}</title>
+      <polyline
+        points={coordinates.join(' ')}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={1.5}
+        strokeLinejoin="round"
+        strokeLinecap="round"
+      />
+    </svg>
+  );
+}
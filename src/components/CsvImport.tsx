@@ -0,0 +1,262 @@
+'use client';
+
+import { useState } from 'react';
+import { Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { CsvProfileFields, defaultCsvProfile, type CsvProfile } from './CsvProfileDialog';
+import { formatCurrency } from '@/lib/currency';
+
+// What /api/data/csv-upload would import (a dry run)
+interface CsvPreview {
+  format: 'csv' | 'ofx' | 'qif' | 'camt' | 'mt940';
+  accountId: string;
+  isNewAccount: boolean;
+  institutionName: string;
+  accountMask: string;     // from the file for OFX, when the form left it out
+  profile: CsvProfile | null; // CSV only
+  headers: string[];
+  isoCurrencyCode: string;
+  rows: {
+    row: number;
+    transactionId: string;
+    date: string;
+    description: string;
+    merchantName?: string;
+    amount: number;
+    duplicate: boolean;
+  }[];
+  skippedRows: { row: number; reason: string }[];
+  balances: { type: 'opening' | 'closing' | 'closingAvailable'; date: string; amount: number }[];
+  transactionCount: number;
+  newTransactions: number;
+  skippedDuplicates: number;
+  depositTotal: number;
+}
+
+// camt.053 comes as .xml; MT940 as .sta, .940, .mt940 or plain .txt
+const FILE_EXTENSIONS = /\.(csv|ofx|qfx|qif|xml|sta|940|mt940|txt)$/i;
+
+const BALANCE_LABELS = { opening: 'Opening', closing: 'Closing', closingAvailable: 'Available' };
+
+interface CsvImportProps {
+  // Sent with the file: which account it goes to, and the currency of a new one
+  fields: { institutionName: string; accountName: string; accountMask: string; currency?: string };
+  hint?: React.ReactNode;  // shown under the file picker
+  backLabel: string;
+  onBack: () => void;
+  onImported: () => void | Promise<void>;
+}
+
+// Pick a statement file (CSV, OFX, QFX, QIF, camt.053 or MT940), preview what
+// it would import (fixing a CSV's column mapping if it reads wrong), then
+// import it
+export function CsvImport({ fields, hint, backLabel, onBack, onImported }: CsvImportProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<CsvPreview | null>(null);
+  const [profile, setProfile] = useState<CsvProfile | null>(null); // null until the server picks one
+  const [columns, setColumns] = useState<string[]>([]);
+  const [editingMapping, setEditingMapping] = useState(false);
+  const [stale, setStale] = useState(false); // the mapping changed since the preview
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (selected) {
+      if (!FILE_EXTENSIONS.test(selected.name)) {
+        setError('Please select a CSV, OFX, QFX, QIF, camt.053 or MT940 file');
+        return;
+      }
+      setFile(selected);
+      setPreview(null);
+      setProfile(null);
+      setColumns([]);
+      setEditingMapping(false);
+      setStale(false);
+      setError(null);
+    }
+  };
+
+  const send = async (dryRun: boolean) => {
+    if (!file) return;
+
+    setBusy(true);
+    setError(null);
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      for (const [name, value] of Object.entries(fields)) {
+        if (value !== undefined) formData.append(name, value);
+      }
+      if (profile) formData.append('profile', JSON.stringify(profile));
+      if (dryRun) formData.append('dryRun', 'true');
+
+      const response = await fetch('/api/data/csv-upload', {
+        method: 'POST',
+        body: formData,
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        // A file that can't be read with the mapping comes back with its
+        // header, so the mapping can be fixed here
+        if (result.headers) {
+          setPreview(null);
+          setColumns(result.headers);
+          setProfile(result.profile || profile || defaultCsvProfile(fields.institutionName));
+          setEditingMapping(true);
+        }
+        throw new Error(result.error || 'Failed to upload CSV');
+      }
+
+      if (dryRun) {
+        setPreview(result);
+        setProfile(result.profile);
+        setColumns(result.headers);
+        setStale(false);
+      } else {
+        toast.success(`Imported ${result.newTransactions} new transaction${result.newTransactions === 1 ? '' : 's'}`, {
+          description: result.skippedDuplicates > 0 || result.skippedRows > 0
+            ? `${result.skippedDuplicates} already imported, ${result.skippedRows} rows skipped`
+            : undefined,
+        });
+        await onImported();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload CSV');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const changeMapping = (changed: CsvProfile) => {
+    setProfile(changed);
+    setStale(true);
+  };
+
+  const formatAmount = (amount: number) =>
+    formatCurrency(-amount, preview?.isoCurrencyCode || fields.currency || 'USD');
+
+  return (
+    <>
+      <div className="grid gap-4 py-4">
+        <label
+          htmlFor="csv-import-file"
+          className="border-2 border-dashed rounded-lg p-4 text-center cursor-pointer hover:border-primary transition-colors block"
+        >
+          <input
+            id="csv-import-file"
+            type="file"
+            accept=".csv,.ofx,.qfx,.qif,.xml,.sta,.940,.mt940,.txt"
+            onChange={handleFileChange}
+            className="sr-only"
+          />
+          <Upload className="h-6 w-6 mx-auto mb-2 text-muted-foreground" />
+          {file ? (
+            <p className="text-sm font-medium">{file.name}</p>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Click to select a CSV, OFX, QFX, QIF, camt.053 or MT940 file
+            </p>
+          )}
+        </label>
+        {!file && hint}
+
+        {preview && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+              <span className="w-full text-muted-foreground">
+                {preview.isNewAccount ? 'New account' : 'Account'}: {preview.institutionName} ••{preview.accountMask}
+              </span>
+              <span><span className="font-medium">{preview.newTransactions}</span> new</span>
+              <span className="text-muted-foreground">{preview.skippedDuplicates} already imported</span>
+              <span className="text-muted-foreground">{preview.skippedRows.length} skipped</span>
+              <span className="ml-auto">
+                Deposits: <span className="font-medium text-success">{formatCurrency(preview.depositTotal, preview.isoCurrencyCode)}</span>
+              </span>
+            </div>
+            {preview.balances.length > 0 && (
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                {preview.balances.map((balance, i) => (
+                  <span key={i}>
+                    {BALANCE_LABELS[balance.type]} {balance.date}: {formatCurrency(balance.amount, preview.isoCurrencyCode)}
+                  </span>
+                ))}
+              </div>
+            )}
+            {preview.rows.length > 0 ? (
+              <div className="max-h-64 overflow-y-auto rounded-md border">
+                <table className="w-full text-sm">
+                  <thead className="sticky top-0 bg-background text-xs text-muted-foreground">
+                    <tr className="border-b">
+                      <th className="px-2 py-1.5 text-left font-medium">Row</th>
+                      <th className="px-2 py-1.5 text-left font-medium">Date</th>
+                      <th className="px-2 py-1.5 text-left font-medium">Description</th>
+                      <th className="px-2 py-1.5 text-right font-medium">Amount</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.rows.map(row => (
+                      <tr key={row.row} className={`border-b last:border-0 ${row.duplicate ? 'text-muted-foreground' : ''}`}>
+                        <td className="px-2 py-1 tabular-nums">{row.row}</td>
+                        <td className="px-2 py-1 whitespace-nowrap">{row.date}</td>
+                        <td className="px-2 py-1">
+                          {row.description}
+                          {row.merchantName && row.merchantName !== row.description && (
+                            <span className="block text-xs text-muted-foreground">{row.merchantName}</span>
+                          )}
+                          {row.duplicate && <span className="ml-2 text-xs">(already imported)</span>}
+                        </td>
+                        <td className={`px-2 py-1 text-right tabular-nums whitespace-nowrap ${!row.duplicate && row.amount < 0 ? 'text-success' : ''}`}>
+                          {formatAmount(row.amount)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No transactions were found with this mapping.</p>
+            )}
+            {preview.skippedRows.length > 0 && (
+              <div className="max-h-24 overflow-y-auto text-xs text-muted-foreground">
+                {preview.skippedRows.map(skipped => (
+                  <p key={skipped.row}>Row {skipped.row}: {skipped.reason}</p>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {profile && (
+          <div className="space-y-3">
+            <Button variant="ghost" size="sm" className="-ml-2" onClick={() => setEditingMapping(!editingMapping)}>
+              {editingMapping ? 'Hide Column Mapping' : `Adjust Column Mapping (${profile.name})`}
+            </Button>
+            {editingMapping && (
+              <CsvProfileFields profile={profile} onChange={changeMapping} columns={columns} />
+            )}
+          </div>
+        )}
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <div className="flex justify-between">
+        <Button variant="outline" onClick={onBack}>
+          {backLabel}
+        </Button>
+        {preview && !stale ? (
+          <Button onClick={() => send(false)} disabled={busy || preview.newTransactions === 0}>
+            {busy ? 'Importing...' : `Import ${preview.newTransactions} Transaction${preview.newTransactions === 1 ? '' : 's'}`}
+          </Button>
+        ) : (
+          <Button onClick={() => send(true)} disabled={!file || busy}>
+            {busy ? 'Reading...' : preview ? 'Update Preview' : 'Preview'}
+          </Button>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,256 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+// How a CSV account's uploads are read (see src/lib/csv.ts)
+export interface CsvProfile {
+  name: string;
+  dateColumn: string;
+  descriptionColumn: string;
+  amountColumn: string | null;
+  debitColumn: string | null;
+  creditColumn: string | null;
+  balanceColumn: string | null;
+  typeColumn: string | null;
+  dateFormat: 'auto' | 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'YYYY-MM-DD';
+  amountSign: 'depositsPositive' | 'depositsNegative';
+}
+
+const DATE_FORMATS: { value: CsvProfile['dateFormat']; label: string }[] = [
+  { value: 'auto', label: 'Detect (month first)' },
+  { value: 'MM/DD/YYYY', label: 'MM/DD/YYYY' },
+  { value: 'DD/MM/YYYY', label: 'DD/MM/YYYY' },
+  { value: 'YYYY-MM-DD', label: 'YYYY-MM-DD' },
+];
+
+// A starting point for a mapping written by hand
+export function defaultCsvProfile(name: string): CsvProfile {
+  return {
+    name,
+    dateColumn: 'Date',
+    descriptionColumn: 'Description',
+    amountColumn: 'Amount',
+    debitColumn: null,
+    creditColumn: null,
+    balanceColumn: null,
+    typeColumn: null,
+    dateFormat: 'auto',
+    amountSign: 'depositsNegative',
+  };
+}
+
+const selectClassName = 'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring';
+
+interface CsvProfileFieldsProps {
+  profile: CsvProfile;
+  onChange: (profile: CsvProfile) => void;
+  columns?: string[];      // the file's header, offered as suggestions
+}
+
+// The column mapping form, without a dialog around it
+export function CsvProfileFields({ profile, onChange, columns = [] }: CsvProfileFieldsProps) {
+  const splitAmounts = profile.amountColumn === null;
+
+  const column = (field: 'amountColumn' | 'debitColumn' | 'creditColumn' | 'balanceColumn' | 'typeColumn') => ({
+    value: profile[field] || '',
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) => onChange({ ...profile, [field]: e.target.value || null }),
+    list: 'csv-profile-columns',
+  });
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <datalist id="csv-profile-columns">
+        {columns.map(name => <option key={name} value={name} />)}
+      </datalist>
+      <div className="col-span-2 space-y-1.5">
+        <Label htmlFor="csv-profile-name">Profile Name</Label>
+        <Input
+          id="csv-profile-name"
+          value={profile.name}
+          onChange={(e) => onChange({ ...profile, name: e.target.value })}
+          placeholder="e.g., Chase Checking"
+        />
+      </div>
+      <div className="space-y-1.5">
+        <Label htmlFor="csv-profile-date">Date Column</Label>
+        <Input
+          id="csv-profile-date"
+          value={profile.dateColumn}
+          onChange={(e) => onChange({ ...profile, dateColumn: e.target.value })}
+          list="csv-profile-columns"
+          placeholder="Posting Date"
+        />
+      </div>
+      <div className="space-y-1.5">
+        <Label htmlFor="csv-profile-date-format">Date Format</Label>
+        <select
+          id="csv-profile-date-format"
+          value={profile.dateFormat}
+          onChange={(e) => onChange({ ...profile, dateFormat: e.target.value as CsvProfile['dateFormat'] })}
+          className={selectClassName}
+        >
+          {DATE_FORMATS.map(format => (
+            <option key={format.value} value={format.value}>{format.label}</option>
+          ))}
+        </select>
+      </div>
+      <div className="col-span-2 space-y-1.5">
+        <Label htmlFor="csv-profile-description">Description Column</Label>
+        <Input
+          id="csv-profile-description"
+          value={profile.descriptionColumn}
+          onChange={(e) => onChange({ ...profile, descriptionColumn: e.target.value })}
+          list="csv-profile-columns"
+          placeholder="Description"
+        />
+      </div>
+      <div className="col-span-2 space-y-1.5">
+        <Label>Amounts</Label>
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            variant={splitAmounts ? 'outline' : 'default'}
+            size="sm"
+            onClick={() => onChange({ ...profile, amountColumn: profile.amountColumn ?? 'Amount', debitColumn: null, creditColumn: null })}
+          >
+            One Amount Column
+          </Button>
+          <Button
+            type="button"
+            variant={splitAmounts ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => onChange({
+              ...profile,
+              amountColumn: null,
+              debitColumn: profile.debitColumn ?? 'Debit',
+              creditColumn: profile.creditColumn ?? 'Credit',
+            })}
+          >
+            Debit &amp; Credit Columns
+          </Button>
+        </div>
+      </div>
+      {splitAmounts ? (
+        <>
+          <div className="space-y-1.5">
+            <Label htmlFor="csv-profile-debit">Debit Column (money out)</Label>
+            <Input id="csv-profile-debit" placeholder="Debit" {...column('debitColumn')} />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="csv-profile-credit">Credit Column (money in)</Label>
+            <Input id="csv-profile-credit" placeholder="Credit" {...column('creditColumn')} />
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="space-y-1.5">
+            <Label htmlFor="csv-profile-amount">Amount Column</Label>
+            <Input id="csv-profile-amount" placeholder="Amount" {...column('amountColumn')} />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="csv-profile-sign">Deposits Are</Label>
+            <select
+              id="csv-profile-sign"
+              value={profile.amountSign}
+              onChange={(e) => onChange({ ...profile, amountSign: e.target.value as CsvProfile['amountSign'] })}
+              className={selectClassName}
+            >
+              <option value="depositsPositive">Positive</option>
+              <option value="depositsNegative">Negative</option>
+            </select>
+          </div>
+        </>
+      )}
+      <div className="space-y-1.5">
+        <Label htmlFor="csv-profile-balance">Balance Column</Label>
+        <Input id="csv-profile-balance" placeholder="Optional" {...column('balanceColumn')} />
+      </div>
+      <div className="space-y-1.5">
+        <Label htmlFor="csv-profile-type">Type Column</Label>
+        <Input id="csv-profile-type" placeholder="Optional" {...column('typeColumn')} />
+      </div>
+      <p className="col-span-2 text-xs text-muted-foreground">
+        Column names must match the CSV header (case doesn&apos;t matter). Rows with an empty balance are skipped as pending.
+      </p>
+    </div>
+  );
+}
+
+interface CsvProfileDialogProps {
+  account: { id: string; institution: string; csvProfile: CsvProfile | null };
+  onClose: () => void;
+  onSaved: () => Promise<void>; // after it's saved or reset (an undoable change)
+}
+
+// Edit or reset the column mapping a CSV account's uploads are read with
+export function CsvProfileDialog({ account, onClose, onSaved }: CsvProfileDialogProps) {
+  const [profile, setProfile] = useState<CsvProfile>(account.csvProfile || defaultCsvProfile(account.institution));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const send = async (method: 'PUT' | 'DELETE') => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/data/csv-profile', {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(method === 'PUT' ? { accountId: account.id, profile } : { accountId: account.id }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save column mapping');
+      }
+      onClose();
+      await onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save column mapping');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Column Mapping for {account.institution}</DialogTitle>
+          <DialogDescription>
+            {account.csvProfile
+              ? 'How this account\'s CSV uploads are read. Changes apply to later uploads; transactions already imported stay as they are.'
+              : 'No mapping is saved yet, so the columns will be detected from the next upload. Save one here to set them yourself.'}
+          </DialogDescription>
+        </DialogHeader>
+        <CsvProfileFields profile={profile} onChange={setProfile} />
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        <div className="flex justify-between gap-2">
+          <div>
+            {account.csvProfile && (
+              <Button variant="ghost" onClick={() => send('DELETE')} disabled={saving}>
+                Detect Again
+              </Button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button onClick={() => send('PUT')} disabled={saving}>
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -54,6 +54,8 @@ export default function PlaidLinkButton({ onSuccess }: PlaidLinkProps) {
     try {
       const response = await fetch('/api/plaid/create-link-token', {
         method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ languages: navigator.languages }),
       });
       const data = await response.json();
       setLinkToken(data.linkToken);
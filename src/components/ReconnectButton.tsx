@@ -0,0 +1,87 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { usePlaidLink } from 'react-plaid-link';
+import { RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+
+interface ReconnectButtonProps {
+  accountId: string;
+  institution: string;
+  onReconnected: () => Promise<void>;
+}
+
+// Runs Plaid Link in update mode so the user can sign in to their bank again
+export function ReconnectButton({ accountId, institution, onReconnected }: ReconnectButtonProps) {
+  const [linkToken, setLinkToken] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const onPlaidSuccess = useCallback(async () => {
+    setLinkToken(null);
+    try {
+      const response = await fetch('/api/plaid/reconnect', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ accountId }),
+      });
+      if (!response.ok) {
+        throw new Error((await response.json()).error);
+      }
+      toast.success(`Reconnected ${institution}`);
+      await onReconnected();
+    } catch (error) {
+      console.error('Error reconnecting account:', error);
+      toast.error(`Failed to reconnect ${institution}`);
+    }
+  }, [accountId, institution, onReconnected]);
+
+  const onPlaidExit = useCallback(() => {
+    setLinkToken(null);
+  }, []);
+
+  const { open, ready } = usePlaidLink({
+    token: linkToken,
+    onSuccess: onPlaidSuccess,
+    onExit: onPlaidExit,
+  });
+
+  // Open Plaid Link when token is ready
+  useEffect(() => {
+    if (linkToken && ready) {
+      open();
+    }
+  }, [linkToken, ready, open]);
+
+  const startReconnect = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/plaid/create-link-token', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ accountId, languages: navigator.languages }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error);
+      }
+      setLinkToken(data.linkToken);
+    } catch (error) {
+      console.error('Error getting link token:', error);
+      toast.error(`Failed to start reconnecting ${institution}`);
+    }
+    setLoading(false);
+  };
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={(e) => { e.stopPropagation(); startReconnect(); }}
+      disabled={loading}
+    >
+      <RefreshCw className={`h-4 w-4 mr-1 ${loading ? 'animate-spin' : ''}`} />
+      Reconnect
+    </Button>
+  );
+}
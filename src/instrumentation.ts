@@ -0,0 +1,8 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  // The scheduler uses Node APIs (and the data files), so not on the edge runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startScheduler } = await import('./lib/jobs');
+    startScheduler();
+  }
+}
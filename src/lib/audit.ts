@@ -0,0 +1,38 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { NextRequest } from 'next/server';
+import type { AuditContext, AuditSource } from './storage';
+
+// Who/what is making the current change, recorded with every audit log entry.
+// API routes set it once per request; data.ts adds the name of the higher-level
+// operation (e.g. deleteAccount) so cascaded changes can be traced back to it.
+// Background jobs set it with withAuditSource; anything else outside a request
+// (migrations at startup, scripts) is 'system'.
+
+const contextStorage = new AsyncLocalStorage<AuditContext>();
+
+export function getAuditContext(): AuditContext {
+  return contextStorage.getStore() || { source: 'system' };
+}
+
+// Attribute the rest of this request's changes to `source` and its route
+export function setAuditContext(request: NextRequest, source: AuditSource): void {
+  contextStorage.enterWith({
+    source,
+    route: `${request.method} ${request.nextUrl.pathname}`,
+  });
+}
+
+// Run fn (and anything it awaits) with its changes attributed to `source`,
+// e.g. for a scheduled sync. Inside a request the route is kept.
+export function withAuditSource<T>(source: AuditSource, fn: () => T): T {
+  return contextStorage.run({ source, route: getAuditContext().route }, fn);
+}
+
+// Run fn with its changes attributed to `operation` (the outermost operation wins)
+export function withAuditOperation<T>(operation: string, fn: () => T): T {
+  const context = getAuditContext();
+  if (context.operation) {
+    return fn();
+  }
+  return contextStorage.run({ ...context, operation }, fn);
+}
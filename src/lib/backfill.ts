@@ -0,0 +1,71 @@
+import { getPlaidErrorCode, getPlaidErrorMessage } from './plaid';
+import { backfillAccount, type BackfillProgress, type SyncResult } from './sync';
+import type { Account } from './data';
+
+// Re-fetching an item's whole history can take a while (several pages, or a
+// wait while Plaid is still pulling it from the bank), so it runs in the
+// background and the Accounts tab polls for progress.
+
+export interface Backfill extends BackfillProgress {
+  accountId: string;
+  itemId: string;
+  institution: string;
+  status: 'running' | 'succeeded' | 'failed';
+  startedAt: string;       // ISO timestamp
+  finishedAt: string | null;
+  result: SyncResult | null; // added, modified (already stored) and removed
+  errorCode: string | null;
+  error: string | null;
+}
+
+// Thrown when a backfill of the account is already under way
+export class BackfillAlreadyRunningError extends Error {}
+
+// The latest backfill of each account, by account ID. Kept in memory only: a
+// backfill doesn't survive a restart, and nothing is stored until it finishes.
+const backfills = new Map<string, Backfill>();
+
+export function getBackfills(): Backfill[] {
+  return [...backfills.values()];
+}
+
+// Start re-fetching the account's history; returns straight away
+export function startBackfill(account: Account): Backfill {
+  if (backfills.get(account.id)?.status === 'running') {
+    throw new BackfillAlreadyRunningError(`${account.institution} is already being re-fetched`);
+  }
+
+  const backfill: Backfill = {
+    accountId: account.id,
+    itemId: account.itemId,
+    institution: account.institution,
+    status: 'running',
+    startedAt: new Date().toISOString(),
+    finishedAt: null,
+    pages: 0,
+    fetched: 0,
+    historyStatus: null,
+    result: null,
+    errorCode: null,
+    error: null,
+  };
+  backfills.set(account.id, backfill);
+
+  const update = (changes: Partial<Backfill>) => {
+    backfills.set(account.id, { ...backfills.get(account.id)!, ...changes });
+  };
+
+  backfillAccount(account, progress => update(progress))
+    .then(result => update({ status: 'succeeded', finishedAt: new Date().toISOString(), result }))
+    .catch(error => {
+      console.error(`Error re-fetching history for ${account.institution}:`, error);
+      update({
+        status: 'failed',
+        finishedAt: new Date().toISOString(),
+        errorCode: getPlaidErrorCode(error),
+        error: getPlaidErrorMessage(error),
+      });
+    });
+
+  return backfill;
+}
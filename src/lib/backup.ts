@@ -0,0 +1,134 @@
+import { createHash } from 'crypto';
+import { gunzipSync, gzipSync } from 'zlib';
+import { exportData, getAccounts, restoreData } from './data';
+import { LATEST_SCHEMA_VERSION, SNAPSHOT_COLLECTIONS, type StorageSnapshot } from './storage';
+
+// A backup is the whole store as one gzipped JSON document. The checksum covers
+// the collections so a truncated or hand-edited file is rejected on restore.
+export const BACKUP_FORMAT = 'rent-tracker-backup';
+export const BACKUP_FORMAT_VERSION = 2;
+
+// Collections added after format version 1, by the version that added them.
+// Older backups don't have them, so they restore as empty.
+const ADDED_COLLECTIONS: Partial<Record<keyof StorageSnapshot, number>> = {
+  dailyBalances: 2,
+};
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  schemaVersion: number;     // data schema version the collections are in
+  createdAt: string;         // ISO timestamp
+  secretsIncluded: boolean;  // false = access tokens were blanked out
+  checksum: string;          // sha256 of JSON.stringify(collections)
+  collections: StorageSnapshot;
+}
+
+export type RestoreMode = 'replace' | 'merge';
+
+// Field every record in a collection must have
+const ID_FIELDS: Record<keyof StorageSnapshot, string> = {
+  accounts: 'id',
+  tenants: 'id',
+  rentPayments: 'tenantId',
+  transactions: 'transactionId',
+  syncCursors: 'itemId',
+  tenantTransactions: 'transactionId',
+  rejectedMatches: 'transactionId',
+  csvUploads: 'id',
+  dailyBalances: 'accountId',
+};
+
+function checksum(collections: StorageSnapshot): string {
+  return createHash('sha256').update(JSON.stringify(collections)).digest('hex');
+}
+
+export function createBackup({ includeSecrets }: { includeSecrets: boolean }): Buffer {
+  const { snapshot, schemaVersion } = exportData();
+
+  const collections: StorageSnapshot = includeSecrets
+    ? snapshot
+    : { ...snapshot, accounts: snapshot.accounts.map(a => ({ ...a, accessToken: '' })) };
+
+  const archive: BackupArchive = {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    schemaVersion,
+    createdAt: new Date().toISOString(),
+    secretsIncluded: includeSecrets,
+    checksum: checksum(collections),
+    collections,
+  };
+
+  return gzipSync(JSON.stringify(archive));
+}
+
+// Parse and validate an uploaded archive (gzipped or plain JSON).
+// Throws an Error with a user-facing message if anything is wrong.
+export function parseBackup(data: Buffer): BackupArchive {
+  let archive: BackupArchive;
+  try {
+    const isGzip = data[0] === 0x1f && data[1] === 0x8b;
+    archive = JSON.parse((isGzip ? gunzipSync(data) : data).toString('utf-8'));
+  } catch {
+    throw new Error('Backup file is not a valid archive');
+  }
+
+  if (archive?.format !== BACKUP_FORMAT) {
+    throw new Error('File is not a rent tracker backup');
+  }
+  if (archive.formatVersion > BACKUP_FORMAT_VERSION) {
+    throw new Error(`Backup format version ${archive.formatVersion} is newer than this app supports`);
+  }
+  if (typeof archive.schemaVersion !== 'number' || archive.schemaVersion > LATEST_SCHEMA_VERSION) {
+    throw new Error(`Backup schema version ${archive.schemaVersion} is newer than this app supports`);
+  }
+  if (!archive.collections || typeof archive.collections !== 'object') {
+    throw new Error('Backup has no collections');
+  }
+
+  if (checksum(archive.collections) !== archive.checksum) {
+    throw new Error('Backup checksum does not match; the file is corrupted or was modified');
+  }
+
+  for (const name of SNAPSHOT_COLLECTIONS) {
+    const addedIn = ADDED_COLLECTIONS[name];
+    if (addedIn && archive.formatVersion < addedIn && !(name in archive.collections)) {
+      archive.collections = { ...archive.collections, [name]: [] };
+    }
+
+    const records: unknown = archive.collections[name];
+    if (!Array.isArray(records)) {
+      throw new Error(`Backup is missing the ${name} collection`);
+    }
+    const idField = ID_FIELDS[name];
+    const invalid = records.findIndex(r => !r || typeof r !== 'object' || !(idField in r));
+    if (invalid !== -1) {
+      throw new Error(`Record ${invalid + 1} in ${name} is missing ${idField}`);
+    }
+  }
+
+  return archive;
+}
+
+export function restoreBackup(archive: BackupArchive, mode: RestoreMode): Record<keyof StorageSnapshot, number> {
+  let collections = archive.collections;
+
+  // Keep the access tokens we already have for accounts backed up without them
+  if (!archive.secretsIncluded) {
+    const existingTokens = new Map(getAccounts().map(a => [a.id, a.accessToken]));
+    collections = {
+      ...collections,
+      accounts: collections.accounts.map(a => ({
+        ...a,
+        accessToken: a.accessToken || existingTokens.get(a.id) || '',
+      })),
+    };
+  }
+
+  restoreData(collections, archive.schemaVersion, mode);
+
+  return Object.fromEntries(
+    SNAPSHOT_COLLECTIONS.map(name => [name, collections[name].length])
+  ) as Record<keyof StorageSnapshot, number>;
+}
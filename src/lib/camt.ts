@@ -0,0 +1,170 @@
+import { toIsoDate, type SkippedRow } from './csv';
+import type { ParsedStatement, StatementBalance, StatementTransaction } from './statement';
+
+// Reading ISO 20022 camt.053 bank-to-customer statements (XML). Elements may
+// carry a namespace prefix, so they're matched by local name. Each <Stmt> has
+// the account, its <Bal> balances and an <Ntry> per booking.
+
+// Whether content is a camt.053 statement rather than a CSV
+export function isCamt(content: string): boolean {
+  return /<(?:\w+:)?BkToCstmrStmt\b/.test(content);
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, '\'')
+    .replace(/&amp;/g, '&');
+}
+
+// Every <tag>...</tag> element in xml, with where it starts
+function readElements(xml: string, tag: string): { body: string; index: number }[] {
+  const pattern = new RegExp(`<(?:\\w+:)?${tag}\\b[^>]*>([\\s\\S]*?)<\\/(?:\\w+:)?${tag}>`, 'g');
+  return [...xml.matchAll(pattern)].map(match => ({ body: match[1], index: match.index }));
+}
+
+function readElement(xml: string, tag: string): string | null {
+  return readElements(xml, tag)[0]?.body ?? null;
+}
+
+function textOf(xml: string): string {
+  return decodeEntities(xml.replace(/<[^>]*>/g, '')).replace(/\s+/g, ' ').trim();
+}
+
+// The text of the first element with a path of tags, e.g. ['Dbtr', 'Nm']
+function readValue(xml: string | null, ...path: string[]): string | null {
+  let current = xml;
+  for (const tag of path) {
+    if (current === null) return null;
+    current = readElement(current, tag);
+  }
+  return current === null ? null : textOf(current) || null;
+}
+
+// The first <Dt> or <DtTm> date in xml. Balances nest them (<Dt><Dt>), so
+// this looks for the tag the date itself is in.
+function parseCamtDate(xml: string | null): string | null {
+  const match = xml?.match(/<(?:\w+:)?(?:Dt|DtTm)>\s*(\d{4})-(\d{2})-(\d{2})/);
+  return match ? toIsoDate(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+}
+
+// An amount signed by its <CdtDbtInd> (DBIT is negative)
+function readSignedAmount(xml: string): number {
+  const amount = parseFloat(readValue(xml, 'Amt') || '');
+  return readValue(xml, 'CdtDbtInd') === 'DBIT' ? -amount : amount;
+}
+
+// The name of a related party, in the 2009 (<Dbtr><Nm>) or 2019 and later
+// (<Dbtr><Pty><Nm>) layout
+function readPartyName(xml: string, party: 'Dbtr' | 'Cdtr'): string | null {
+  const element = readElement(xml, 'RltdPties');
+  return readValue(element, party, 'Pty', 'Nm') || readValue(element, party, 'Nm');
+}
+
+const BALANCE_TYPES: Record<string, StatementBalance['type']> = {
+  OPBD: 'opening',         // opening booked
+  PRCD: 'opening',         // previous closing booked
+  CLBD: 'closing',         // closing booked
+  CLAV: 'closingAvailable', // closing available
+};
+
+// Read every booked entry. Throws if the file has statements for more than
+// one account; entries that can't be read are skipped and listed.
+export function parseCamt(content: string): ParsedStatement {
+  const statements = readElements(content, 'Stmt');
+  if (statements.length === 0) {
+    throw new Error('Not a camt.053 statement: no <Stmt> found');
+  }
+
+  const accountNumbers = new Set(
+    statements
+      .map(({ body }) => readValue(readElement(body, 'Acct'), 'IBAN') || readValue(readElement(body, 'Acct'), 'Othr', 'Id'))
+      .filter((id): id is string => !!id)
+  );
+  if (accountNumbers.size > 1) {
+    throw new Error(`The file has statements for ${accountNumbers.size} accounts. Download each account on its own.`);
+  }
+
+  const lineOf = (index: number) => content.slice(0, index).split('\n').length;
+  const firstAccount = readElement(statements[0].body, 'Acct');
+  const servicer = readElement(firstAccount || '', 'Svcr');
+
+  const transactions: StatementTransaction[] = [];
+  const skipped: SkippedRow[] = [];
+  const balances: StatementBalance[] = [];
+
+  for (const statement of statements) {
+    const statementId = readValue(statement.body, 'Id');
+
+    for (const { body } of readElements(statement.body, 'Bal')) {
+      const type = BALANCE_TYPES[readValue(body, 'Tp', 'CdOrPrtry', 'Cd') || ''];
+      const date = parseCamtDate(body);
+      const amount = readSignedAmount(body);
+      if (type && date && !isNaN(amount)) {
+        balances.push({ type, date, amount });
+      }
+    }
+
+    for (const { body, index } of readElements(statement.body, 'Ntry')) {
+      const row = lineOf(statement.index + index);
+
+      // The 2009 layout has <Sts>BOOK</Sts>, later ones <Sts><Cd>BOOK</Cd></Sts>
+      const status = readValue(body, 'Sts');
+      if (status && status !== 'BOOK') {
+        skipped.push({ row, reason: status === 'PDNG' ? 'Pending' : `Status ${status}` });
+        continue;
+      }
+
+      const date = parseCamtDate(readElement(body, 'BookgDt')) || parseCamtDate(readElement(body, 'ValDt'));
+      if (!date) {
+        skipped.push({ row, reason: 'No booking date' });
+        continue;
+      }
+
+      // camt amounts are unsigned; CRDT is money in
+      const amount = -readSignedAmount(body);
+      if (isNaN(amount)) {
+        skipped.push({ row, reason: 'Could not read the amount' });
+        continue;
+      }
+
+      const credit = amount < 0;
+      const counterparty = readPartyName(body, credit ? 'Dbtr' : 'Cdtr');
+      const remittance = readElements(body, 'Ustrd').map(u => textOf(u.body)).filter(Boolean).join(' ')
+        || readValue(body, 'RmtInf', 'Strd', 'CdtrRefInf', 'Ref')
+        || readValue(body, 'AddtlNtryInf')
+        || readValue(body, 'AddtlTxInf');
+
+      // The servicer's reference is unique; many banks number NtryRef per
+      // statement (1, 2, 3...), so that one only counts alongside the
+      // statement and date. Without either the entry is hashed.
+      const entryRef = readValue(body, 'NtryRef');
+      const reference = readValue(body, 'AcctSvcrRef')
+        || (entryRef && statementId ? `${statementId}-${date}-${entryRef}` : null);
+
+      transactions.push({
+        row,
+        reference,
+        date,
+        description: remittance || counterparty || 'Unknown',
+        counterparty,
+        amount,
+      });
+    }
+  }
+
+  const ccy = readValue(firstAccount, 'Ccy') || content.match(/<(?:\w+:)?Amt\b[^>]*Ccy="([A-Z]{3})"/)?.[1] || null;
+
+  return {
+    format: 'camt',
+    institution: readValue(servicer, 'Nm') || readValue(servicer, 'BICFI') || readValue(servicer, 'BIC'),
+    accountNumber: [...accountNumbers][0] || null,
+    currency: ccy,
+    transactions,
+    skipped,
+    balances,
+  };
+}
@@ -0,0 +1,121 @@
+// Standard five-field cron expressions ("minute hour day-of-month month
+// day-of-week"), evaluated in the server's local time. Each field takes `*`,
+// numbers, ranges (`1-5`), steps (`*/15`, `0-30/10`) and comma-separated
+// lists of those. Day of week runs 0-6 from Sunday (7 is also Sunday).
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;     // 1-12
+  daysOfWeek: Set<number>;
+  // As in cron, when both day fields are restricted a day matching either runs
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+function parseField(field: string, { name, min, max }: (typeof FIELDS)[number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) {
+      throw new Error(`Invalid ${name} "${part}"`);
+    }
+
+    const step = match[4] ? Number(match[4]) : 1;
+    let start = min;
+    let end = max;
+    if (match[2] !== undefined) {
+      start = Number(match[2]);
+      // `5/15` means from 5 to the end in steps of 15
+      end = match[3] !== undefined ? Number(match[3]) : match[4] ? max : start;
+    }
+
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Invalid ${name} "${part}" (must be within ${min}-${max})`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+// Throws an Error describing the problem if the expression isn't valid
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields, not ${fields.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => {
+    try {
+      return parseField(field, FIELDS[i]);
+    } catch (error) {
+      throw new Error(`Cron expression "${expression}": ${(error as Error).message}`);
+    }
+  });
+
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    expression,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*',
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.anyDayOfMonth || schedule.anyDayOfWeek) {
+    return dayOfMonth && dayOfWeek;
+  }
+  return dayOfMonth || dayOfWeek;
+}
+
+// The first minute strictly after `after` that the schedule runs at, or null
+// if there's none in the next four years (e.g. "0 0 31 2 *")
+export function nextCronRun(schedule: CronSchedule, after: Date): Date | null {
+  const next = new Date(after);
+  next.setSeconds(0, 0);
+  next.setMinutes(next.getMinutes() + 1);
+
+  const limit = new Date(after);
+  limit.setFullYear(limit.getFullYear() + 4);
+
+  while (next <= limit) {
+    if (!schedule.months.has(next.getMonth() + 1)) {
+      next.setMonth(next.getMonth() + 1, 1);
+      next.setHours(0, 0);
+    } else if (!matchesDay(schedule, next)) {
+      next.setDate(next.getDate() + 1);
+      next.setHours(0, 0);
+    } else if (!schedule.hours.has(next.getHours())) {
+      next.setHours(next.getHours() + 1, 0);
+    } else if (!schedule.minutes.has(next.getMinutes())) {
+      next.setMinutes(next.getMinutes() + 1);
+    } else {
+      return next;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,356 @@
+import type { CsvDateFormat, CsvProfile } from './data';
+
+// Reading bank CSV exports. Each account has a CsvProfile naming its columns,
+// date format and sign convention; detectCSVProfile guesses one from the
+// header for an account's first upload.
+
+export interface ParsedTransaction {
+  row: number;             // line in the file, counting the header as 1
+  date: string;            // YYYY-MM-DD
+  description: string;
+  amount: number;          // Plaid's convention: positive = money out
+  type: string;
+  balance: string;
+}
+
+// A row a statement parser couldn't import, and why
+export interface SkippedRow {
+  row: number;
+  reason: string;
+}
+
+export interface ParsedCSV {
+  transactions: ParsedTransaction[];
+  skipped: SkippedRow[];
+}
+
+export const CSV_DATE_FORMATS: CsvDateFormat[] = ['auto', 'MM/DD/YYYY', 'DD/MM/YYYY', 'YYYY-MM-DD'];
+
+// Column names tried when detecting a profile, most specific first
+const DATE_COLUMN_NAMES = ['posting date', 'posted date', 'transaction date', 'trans date', 'date'];
+// IMPORTANT: 'description' must come before 'details' - Chase has both columns
+// 'details' in Chase just says "DEBIT" or "CREDIT", 'description' has the actual info
+const DESCRIPTION_COLUMN_NAMES = ['description', 'desc', 'memo', 'payee', 'name', 'transaction', 'details'];
+const AMOUNT_COLUMN_NAMES = ['amount', 'amt', 'transaction amount'];
+const DEBIT_COLUMN_NAMES = ['debit', 'withdrawal', 'withdrawals', 'money out'];
+const CREDIT_COLUMN_NAMES = ['credit', 'deposit', 'deposits', 'money in'];
+const TYPE_COLUMN_NAMES = ['type', 'transaction type', 'trans type'];
+const BALANCE_COLUMN_NAMES = ['balance', 'running balance', 'account balance'];
+
+function splitLines(content: string): string[] {
+  return content.trim().split(/\r?\n/);
+}
+
+// The column names in a CSV's header row
+export function getCSVHeaders(content: string): string[] {
+  return parseCSVLine(splitLines(content)[0] || '').filter(Boolean);
+}
+
+// Guess the columns from a CSV's header row. Throws if there's no date,
+// description or amount column.
+export function detectCSVProfile(content: string, name: string): CsvProfile {
+  const headerCols = parseCSVLine(splitLines(content)[0] || '');
+  const column = (names: string[]) => {
+    const index = findColumnIndex(headerCols, names);
+    return index === -1 ? null : headerCols[index];
+  };
+
+  const dateColumn = column(DATE_COLUMN_NAMES);
+  const descriptionColumn = column(DESCRIPTION_COLUMN_NAMES);
+  const amountColumn = column(AMOUNT_COLUMN_NAMES);
+  const debitColumn = amountColumn ? null : column(DEBIT_COLUMN_NAMES);
+  const creditColumn = amountColumn ? null : column(CREDIT_COLUMN_NAMES);
+
+  // Validate we found the necessary columns
+  if (!dateColumn) {
+    throw new Error('Could not find a date column. Expected columns like: Date, Transaction Date, Posted Date');
+  }
+  if (!descriptionColumn) {
+    throw new Error('Could not find a description column. Expected columns like: Description, Memo, Name');
+  }
+  if (!amountColumn && !debitColumn && !creditColumn) {
+    throw new Error('Could not find an amount column. Expected columns like: Amount, Debit, Credit');
+  }
+
+  // Chase-style CSVs (with a 'details' column saying DEBIT or CREDIT) show
+  // deposits as positive; otherwise assume Plaid's convention
+  const isChaseFormat = headerCols.some(h => h.trim().toLowerCase() === 'details');
+
+  return {
+    name,
+    dateColumn,
+    descriptionColumn,
+    amountColumn,
+    debitColumn,
+    creditColumn,
+    balanceColumn: column(BALANCE_COLUMN_NAMES),
+    typeColumn: column(TYPE_COLUMN_NAMES),
+    dateFormat: 'auto',
+    amountSign: isChaseFormat ? 'depositsPositive' : 'depositsNegative',
+  };
+}
+
+// What's wrong with a profile sent by the client, or null if it's usable
+export function getCSVProfileError(value: unknown): string | null {
+  const profile = value as Partial<Record<keyof CsvProfile, unknown>> | null;
+  if (!profile || typeof profile !== 'object') {
+    return 'profile is required';
+  }
+
+  const optional = (field: unknown) => field === null || typeof field === 'string';
+  if (typeof profile.name !== 'string' || !profile.name.trim()) {
+    return 'name is required';
+  }
+  if (typeof profile.dateColumn !== 'string' || !profile.dateColumn.trim()) {
+    return 'dateColumn is required';
+  }
+  if (typeof profile.descriptionColumn !== 'string' || !profile.descriptionColumn.trim()) {
+    return 'descriptionColumn is required';
+  }
+  if (![profile.amountColumn, profile.debitColumn, profile.creditColumn, profile.balanceColumn, profile.typeColumn].every(optional)) {
+    return 'amountColumn, debitColumn, creditColumn, balanceColumn and typeColumn must be strings or null';
+  }
+  if (!profile.amountColumn && !profile.debitColumn && !profile.creditColumn) {
+    return 'an amount column, or a debit or credit column, is required';
+  }
+  if (!CSV_DATE_FORMATS.includes(profile.dateFormat as CsvDateFormat)) {
+    return `dateFormat must be one of ${CSV_DATE_FORMATS.join(', ')}`;
+  }
+  if (profile.amountSign !== 'depositsPositive' && profile.amountSign !== 'depositsNegative') {
+    return 'amountSign must be depositsPositive or depositsNegative';
+  }
+  return null;
+}
+
+// Read every row using the profile. Throws if the file has no rows or lacks a
+// column the profile names; rows that can't be read are skipped and listed.
+export function parseCSV(content: string, profile: CsvProfile): ParsedCSV {
+  const lines = splitLines(content);
+  if (lines.length < 2) {
+    throw new Error('CSV file must have a header row and at least one data row');
+  }
+
+  const headerCols = parseCSVLine(lines[0]).map(h => h.trim().toLowerCase());
+  const columnIndex = (column: string | null) => {
+    if (!column) return -1;
+    const index = headerCols.indexOf(column.trim().toLowerCase());
+    if (index === -1) {
+      throw new Error(`Could not find the "${column}" column`);
+    }
+    return index;
+  };
+
+  const dateIdx = columnIndex(profile.dateColumn);
+  const descIdx = columnIndex(profile.descriptionColumn);
+  const amountIdx = columnIndex(profile.amountColumn);
+  const debitIdx = columnIndex(profile.debitColumn);
+  const creditIdx = columnIndex(profile.creditColumn);
+  const typeIdx = columnIndex(profile.typeColumn);
+  const balanceIdx = columnIndex(profile.balanceColumn);
+
+  const transactions: ParsedTransaction[] = [];
+  const skipped: SkippedRow[] = [];
+
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+
+    const cols = parseCSVLine(line);
+
+    // Parse date
+    const dateStr = cols[dateIdx]?.trim();
+    if (!dateStr) {
+      skipped.push({ row: i + 1, reason: 'No date' });
+      continue;
+    }
+
+    const date = parseDate(dateStr, profile.dateFormat);
+    if (!date) {
+      skipped.push({ row: i + 1, reason: `Could not read the date "${dateStr}"` });
+      continue;
+    }
+
+    // Parse description
+    const description = cols[descIdx]?.trim() || 'Unknown';
+
+    // Parse type and balance for hash generation
+    const type = typeIdx !== -1 ? (cols[typeIdx]?.trim() || '') : '';
+    const balance = balanceIdx !== -1 ? (cols[balanceIdx]?.trim() || '') : '';
+
+    // Skip transactions with no balance (likely pending)
+    if (balanceIdx !== -1 && !balance) {
+      skipped.push({ row: i + 1, reason: 'No balance (likely a pending transaction)' });
+      continue;
+    }
+
+    // Parse amount
+    let amount: number;
+    if (amountIdx !== -1) {
+      amount = parseAmount(cols[amountIdx]);
+
+      // Plaid's convention is positive = money out, negative = money in
+      if (profile.amountSign === 'depositsPositive') {
+        amount = -amount;
+      }
+    } else {
+      // Separate debit/credit columns; some banks show debits as negative
+      const debit = debitIdx !== -1 ? Math.abs(parseAmount(cols[debitIdx])) : 0;
+      const credit = creditIdx !== -1 ? Math.abs(parseAmount(cols[creditIdx])) : 0;
+      // Debits are money out (positive in Plaid), Credits are money in (negative in Plaid)
+      amount = debit - credit;
+    }
+
+    if (isNaN(amount)) {
+      skipped.push({ row: i + 1, reason: 'Could not read the amount' });
+      continue;
+    }
+
+    transactions.push({ row: i + 1, date, description, amount, type, balance });
+  }
+
+  return { transactions, skipped };
+}
+
+function parseCSVLine(line: string): string[] {
+  const result: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        // Escaped quote
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === ',' && !inQuotes) {
+      result.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  result.push(current);
+
+  return result.map(s => s.trim().replace(/^"|"$/g, ''));
+}
+
+function findColumnIndex(headers: string[], possibleNames: string[]): number {
+  // First pass: try exact matches (prioritized by order in possibleNames)
+  for (const name of possibleNames) {
+    for (let i = 0; i < headers.length; i++) {
+      const header = headers[i].toLowerCase().trim();
+      if (header === name) {
+        return i;
+      }
+    }
+  }
+
+  // Second pass: try partial matches (prioritized by order in possibleNames)
+  for (const name of possibleNames) {
+    for (let i = 0; i < headers.length; i++) {
+      const header = headers[i].toLowerCase().trim();
+      if (header.includes(name)) {
+        return i;
+      }
+    }
+  }
+
+  return -1;
+}
+
+// YYYY-MM-DD, or null if there's no such day (two-digit years are 20xx)
+export function toIsoDate(year: number, month: number, day: number): string | null {
+  if (year < 100) {
+    year += 2000;
+  }
+  // Reject dates that don't exist, like 02/30
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+function parseDate(dateStr: string, format: CsvDateFormat): string | null {
+  if (format !== 'auto') {
+    // Any of / - . between the parts; a time after the date is ignored
+    const match = dateStr.match(/^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})(?:[ T].*)?$/);
+    if (!match) return null;
+    const [a, b, c] = match.slice(1, 4).map(Number);
+    if (format === 'YYYY-MM-DD') return toIsoDate(a, b, c);
+    if (format === 'DD/MM/YYYY') return toIsoDate(c, b, a);
+    return toIsoDate(c, a, b);
+  }
+
+  // Try various date formats
+  const formats = [
+    // MM/DD/YYYY
+    /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/,
+    // MM-DD-YYYY
+    /^(\d{1,2})-(\d{1,2})-(\d{4})$/,
+    // YYYY-MM-DD
+    /^(\d{4})-(\d{1,2})-(\d{1,2})$/,
+    // YYYY/MM/DD
+    /^(\d{4})\/(\d{1,2})\/(\d{1,2})$/,
+    // MM/DD/YY
+    /^(\d{1,2})\/(\d{1,2})\/(\d{2})$/,
+  ];
+
+  for (const format of formats) {
+    const match = dateStr.match(format);
+    if (match) {
+      let year: number, month: number, day: number;
+
+      if (format.source.startsWith('^(\\d{4})')) {
+        // YYYY-MM-DD or YYYY/MM/DD format
+        year = parseInt(match[1]);
+        month = parseInt(match[2]);
+        day = parseInt(match[3]);
+      } else if (match[3].length === 2) {
+        // MM/DD/YY format
+        month = parseInt(match[1]);
+        day = parseInt(match[2]);
+        year = 2000 + parseInt(match[3]);
+      } else {
+        // MM/DD/YYYY or MM-DD-YYYY format
+        month = parseInt(match[1]);
+        day = parseInt(match[2]);
+        year = parseInt(match[3]);
+      }
+
+      // Validate
+      if (month < 1 || month > 12 || day < 1 || day > 31) {
+        continue;
+      }
+
+      return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+    }
+  }
+
+  // Try native Date parsing as fallback
+  const parsed = new Date(dateStr);
+  if (!isNaN(parsed.getTime())) {
+    return parsed.toISOString().split('T')[0];
+  }
+
+  return null;
+}
+
+function parseAmount(amountStr: string | undefined): number {
+  if (!amountStr) return 0;
+
+  // Remove currency symbols, commas, and whitespace
+  const cleaned = amountStr.replace(/[\p{Sc},\s]/gu, '').trim();
+
+  // Handle parentheses as negative (accounting format)
+  if (cleaned.startsWith('(') && cleaned.endsWith(')')) {
+    return -parseFloat(cleaned.slice(1, -1));
+  }
+
+  return parseFloat(cleaned);
+}
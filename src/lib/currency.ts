@@ -0,0 +1,42 @@
+// Amounts are stored as plain numbers next to an ISO 4217 currency code
+// (isoCurrencyCode on transactions, tenants and linked accounts). Shared by the
+// server and the browser, so nothing here may touch Node APIs.
+
+// What amounts saved before currencies were recorded are in
+export const DEFAULT_CURRENCY = 'USD';
+
+export function isCurrencyCode(value: unknown): value is string {
+  return typeof value === 'string' && /^[A-Z]{3}$/.test(value);
+}
+
+// e.g. "$1,500.00", "€1,200.00", "CA$950.00". Codes Intl doesn't know (Plaid
+// reports some unofficial ones, like crypto) fall back to "12.50 XYZ".
+export function formatCurrency(amount: number, currency = DEFAULT_CURRENCY, locale?: string): string {
+  try {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount.toLocaleString(locale, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+  }
+}
+
+// Add up amounts per currency; they're never summed across currencies
+export function sumByCurrency<T>(
+  items: T[],
+  amount: (item: T) => number,
+  currency: (item: T) => string
+): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const item of items) {
+    const code = currency(item);
+    totals.set(code, (totals.get(code) || 0) + amount(item));
+  }
+  return totals;
+}
+
+// e.g. "$3,000.00 + €1,200.00" (or a zero in the default currency when empty)
+export function formatCurrencyTotals(totals: Map<string, number>, locale?: string): string {
+  if (totals.size === 0) {
+    return formatCurrency(0, DEFAULT_CURRENCY, locale);
+  }
+  return [...totals].map(([currency, total]) => formatCurrency(total, currency, locale)).join(' + ');
+}
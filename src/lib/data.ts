@@ -1,11 +1,39 @@
-import fs from 'fs';
-import path from 'path';
-
-const DATA_DIR = path.join(process.cwd(), 'data');
-
-// Ensure data directory exists
-if (!fs.existsSync(DATA_DIR)) {
-  fs.mkdirSync(DATA_DIR, { recursive: true });
+import { randomUUID } from 'crypto';
+import { getAuditContext, withAuditOperation } from './audit';
+import { formatCurrency } from './currency';
+import {
+  createAuditedStorage,
+  createStorage,
+  HISTORY_LIMIT,
+  HistoryConflictError,
+  revertCommand,
+  reapplyCommand,
+  summarizeCommand,
+  runMigrations,
+  getMigrationStatus,
+  type AuditChange,
+  type AuditEntry,
+  type AuditFilter,
+  type CommandSummary,
+  readSnapshot,
+  writeSnapshot,
+  type MigrationStatus,
+  type StorageSnapshot,
+} from './storage';
+
+// Changes made by the command currently running (see runCommand)
+let commandChanges: AuditChange[] | null = null;
+
+// Backend is chosen by DATA_STORE (see src/lib/storage). Every write through
+// it is recorded in the audit log, attributed via the context in audit.ts.
+const storage = createAuditedStorage(createStorage(), getAuditContext, changes => {
+  commandChanges?.push(...changes);
+});
+
+// Bring older data files up to the current shape before anything reads them
+const appliedMigrations = runMigrations(storage);
+if (appliedMigrations.length > 0) {
+  console.log(`Applied data migrations: ${appliedMigrations.join(', ')}`);
 }
 
 export interface LinkedAccount {
@@ -15,17 +43,50 @@ export interface LinkedAccount {
   type: string;
   subtype: string | null;
   mask: string | null; // last 4 digits
+  balance: LinkedAccountBalance | null; // as of the last sync, or a CSV account's last camt.053/MT940 statement
+  excluded: boolean;       // not synced, and its transactions are hidden everywhere
+  isoCurrencyCode: string; // e.g. "USD"; what its balance and transactions are in
+}
+
+export interface LinkedAccountBalance {
+  current: number | null;   // ledger balance, including pending debits
+  available: number | null; // what can be withdrawn; not every bank reports it
 }
 
 export interface Account {
   id: string;
   institution: string;
   institutionId: string | null;
-  accessToken: string;
+  accessToken: string;     // Encrypted Plaid access token (see secrets.ts); empty for CSV accounts
   itemId: string;
   linkedAccounts: LinkedAccount[];
   createdAt: string;
-}
+  lastErrorCode: string | null; // Plaid error from the last failed sync or ITEM webhook
+  lastErrorAt: string | null;   // ISO timestamp
+  needsReauth: boolean;         // must be reconnected through Link update mode
+  csvProfile: CsvProfile | null; // CSV accounts: how their bank's exports are read
+}
+
+// How to read one bank's CSV exports (see csv.ts). Columns are named by their
+// header, compared case-insensitively. Detected on an account's first upload
+// and reused for every later one.
+export interface CsvProfile {
+  name: string;            // e.g. "Chase Checking"
+  dateColumn: string;
+  descriptionColumn: string;
+  amountColumn: string | null;  // a single signed amount column, or...
+  debitColumn: string | null;   // ...separate money out and money in columns
+  creditColumn: string | null;
+  balanceColumn: string | null; // rows with this column empty are skipped as pending
+  typeColumn: string | null;
+  dateFormat: CsvDateFormat;
+  // For amountColumn: whether deposits are positive (most banks, e.g. Chase)
+  // or negative (like Plaid)
+  amountSign: 'depositsPositive' | 'depositsNegative';
+}
+
+// 'auto' tries each of the others, month first
+export type CsvDateFormat = 'auto' | 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'YYYY-MM-DD';
 
 export interface Tenant {
   id: string;
@@ -37,6 +98,7 @@ export interface Tenant {
   accountId: string; // which account to look for payments in
   matchMode: 'searchTerms' | 'exactAmounts'; // how to match transactions
   exactAmounts: number[]; // for exactAmounts mode - match these specific amounts
+  isoCurrencyCode: string; // rent is paid in this; deposits in other currencies never match
 }
 
 export interface RentPayment {
@@ -70,11 +132,55 @@ export interface Transaction {
   accountId: string;       // Plaid account ID
   itemId: string;          // Plaid item ID (bank connection)
   amount: number;          // Positive = money out, Negative = money in (deposit)
+  isoCurrencyCode: string; // e.g. "USD", or Plaid's unofficial code for currencies without one
   date: string;            // YYYY-MM-DD
   name: string;
   merchantName?: string;
   category?: string[];
   pending: boolean;
+  pendingTransactionId?: string; // for a posted transaction, the pending one it replaces
+  // The rest come from Plaid only, and only for transactions synced since they were added
+  originalDescription?: string; // the bank's description before Plaid cleaned it up
+  authorizedDate?: string; // YYYY-MM-DD the payment was initiated, if the bank reports it
+  paymentChannel?: string; // 'online', 'in store' or 'other'
+  personalFinanceCategory?: {
+    primary: string;       // e.g. "TRANSFER_IN"
+    detailed: string;      // e.g. "TRANSFER_IN_ACCOUNT_TRANSFER"
+  };
+  paymentMeta?: TransactionPaymentMeta;
+  counterparties?: TransactionCounterparty[];
+}
+
+// Payment details from ACH, wire and P2P (e.g. Zelle) transfers. Most banks
+// leave most of these empty.
+export interface TransactionPaymentMeta {
+  payer: string | null;
+  payee: string | null;
+  byOrderOf: string | null; // who a wire was sent on behalf of
+  referenceNumber: string | null;
+  paymentMethod: string | null; // e.g. "ACH", "Zelle"
+}
+
+// Who was on the other side of the transaction, as identified by Plaid
+export interface TransactionCounterparty {
+  name: string;
+  type: string;            // e.g. "merchant", "financial_institution", "payment_app"
+}
+
+// Everything a tenant's search terms are checked against, in upper case: the
+// description and merchant, plus for Plaid transactions the bank's original
+// description, the payer and the counterparties. Truncated descriptions often
+// drop the sender's name that payment metadata still has.
+export function getMatchText(transaction: Transaction): string {
+  const meta = transaction.paymentMeta;
+  return [
+    transaction.name,
+    transaction.merchantName,
+    transaction.originalDescription,
+    meta?.payer,
+    meta?.byOrderOf,
+    ...(transaction.counterparties || []).map(c => c.name),
+  ].filter(Boolean).join(' ').toUpperCase();
 }
 
 export interface SyncCursor {
@@ -83,6 +189,66 @@ export interface SyncCursor {
   lastSynced: string;      // ISO timestamp
 }
 
+// A Plaid item being (or that has been) revoked after its account was deleted.
+// Kept after the account is gone so a failed revocation can be retried.
+export interface ItemRemoval {
+  itemId: string;          // Plaid item ID (bank connection)
+  institution: string;
+  accessToken: string;     // encrypted; cleared once Plaid confirms the removal
+  requestedAt: string;     // ISO timestamp
+  status: 'pending' | 'revoked';
+  revokedAt: string | null;
+  attempts: number;        // calls to Plaid so far
+  lastError: string | null; // Plaid error code or message from the last failed attempt
+}
+
+// One Plaid sync of one or more bank connections, kept so the UI can show
+// which bank failed and why
+export interface SyncRun {
+  id: string;
+  trigger: 'manual' | 'webhook' | 'scheduled';
+  startedAt: string;       // ISO timestamp
+  finishedAt: string | null; // null while the run is in progress
+  items: SyncRunItem[];    // one per bank connection, filled in as each finishes
+}
+
+export interface SyncRunItem {
+  itemId: string;          // Plaid item ID (bank connection)
+  accountId: string;
+  institution: string;
+  status: 'succeeded' | 'failed';
+  added: number;
+  modified: number;
+  removed: number;
+  errorCode: string | null; // Plaid error code, if Plaid reported one
+  error: string | null;    // error message when status is 'failed'
+  restarts: number;        // pagination restarts after the data changed mid-sync
+  retries: number;         // requests retried after rate limiting or a Plaid outage
+  durationMs: number;
+}
+
+// One run of a background job (see jobs.ts), scheduled or started by hand
+export interface JobRun {
+  id: string;
+  job: string;             // job name, e.g. "plaid-sync"
+  trigger: 'scheduled' | 'manual';
+  startedAt: string;       // ISO timestamp
+  finishedAt: string | null; // null while the job is running
+  durationMs: number | null;
+  status: 'running' | 'succeeded' | 'failed';
+  summary: string | null;  // what it did, e.g. "3 added, 1 matched"
+  error: string | null;
+}
+
+// One linked account's balance at the end of a day (the last sync that day wins)
+export interface DailyBalance {
+  accountId: string;       // Plaid account ID
+  itemId: string;          // Plaid item ID (bank connection)
+  date: string;            // YYYY-MM-DD
+  current: number | null;
+  available: number | null;
+}
+
 export interface CsvUpload {
   id: string;              // Unique upload ID
   accountId: string;       // Links to the account (itemId)
@@ -94,206 +260,451 @@ export interface CsvUpload {
   transactionIds: string[]; // IDs of transactions from this upload (for deletion)
 }
 
-function getFilePath(filename: string): string {
-  return path.join(DATA_DIR, filename);
+// Unit of work: every change made inside fn is stored together, or not at all
+export function withTransaction<T>(fn: () => T): T {
+  return storage.transaction(fn);
+}
+
+// A named unit of work; its changes are attributed to `operation` in the audit log
+function runOperation<T>(operation: string, fn: () => T): T {
+  return withAuditOperation(operation, () => storage.transaction(fn));
+}
+
+// A user action that can be undone: runs as an operation and pushes what it
+// changed onto the undo stack (clearing the redo stack). `describe` is called
+// before fn, for the message shown when it's done or undone.
+function runCommand<T>(operation: string, describe: () => string, fn: () => T): T {
+  return runOperation(operation, () => {
+    if (commandChanges) {
+      return fn();
+    }
+
+    const description = describe();
+    commandChanges = [];
+    try {
+      const result = fn();
+      if (commandChanges.length > 0) {
+        const history = storage.getCommandHistory();
+        history.undo = [
+          ...history.undo,
+          { id: randomUUID(), operation, description, createdAt: new Date().toISOString(), changes: commandChanges },
+        ].slice(-HISTORY_LIMIT);
+        history.redo = [];
+        storage.saveCommandHistory(history);
+      }
+      return result;
+    } finally {
+      commandChanges = null;
+    }
+  });
+}
+
+// Remove transactions along with the tenant links and rejected matches that point at them
+function removeTransactionsAndLinks(transactionIds: string[]): void {
+  storage.removeTransactions(transactionIds);
+  storage.removeTenantTransactions(transactionIds);
+  storage.removeRejectedMatchesForTransactions(transactionIds);
 }
 
-function readJsonFile<T>(filename: string, defaultValue: T): T {
-  const filePath = getFilePath(filename);
-  if (!fs.existsSync(filePath)) {
-    return defaultValue;
+// Audit Log (newest entries first)
+export function getAuditLog(filter: AuditFilter): AuditEntry[] {
+  return storage.getAuditEntries(filter);
+}
+
+// Undo / Redo
+export function getCommandHistory(): { undo: CommandSummary[]; redo: CommandSummary[] } {
+  const history = storage.getCommandHistory();
+  return {
+    undo: history.undo.map(summarizeCommand).reverse(),
+    redo: history.redo.map(summarizeCommand).reverse(),
+  };
+}
+
+// Move the most recent command from one stack to the other, reverting or
+// reapplying it. If its records have changed since, it is dropped from the
+// history (so older commands can still be undone) and the error is rethrown.
+function stepHistory(from: 'undo' | 'redo'): CommandSummary | null {
+  const to = from === 'undo' ? 'redo' : 'undo';
+
+  try {
+    return runOperation(from, () => {
+      const history = storage.getCommandHistory();
+      const command = history[from].pop();
+      if (!command) return null;
+
+      if (from === 'undo') {
+        revertCommand(storage, command);
+      } else {
+        reapplyCommand(storage, command);
+      }
+      history[to].push(command);
+      storage.saveCommandHistory(history);
+      return summarizeCommand(command);
+    });
+  } catch (error) {
+    if (error instanceof HistoryConflictError) {
+      const history = storage.getCommandHistory();
+      history[from].pop();
+      storage.saveCommandHistory(history);
+    }
+    throw error;
   }
-  const content = fs.readFileSync(filePath, 'utf-8');
-  return JSON.parse(content);
 }
 
-function writeJsonFile<T>(filename: string, data: T): void {
-  const filePath = getFilePath(filename);
-  fs.writeFileSync(filePath, JSON.stringify(data, null, 2));
+// Reverts the most recent command. Returns null if there is nothing to undo;
+// throws HistoryConflictError if its records have changed since.
+export function undoCommand(): CommandSummary | null {
+  return stepHistory('undo');
+}
+
+export function redoCommand(): CommandSummary | null {
+  return stepHistory('redo');
+}
+
+// Schema
+export function getSchemaStatus(): MigrationStatus {
+  return getMigrationStatus(storage);
+}
+
+// Backup / Restore
+export function exportData(): { snapshot: StorageSnapshot; schemaVersion: number } {
+  return {
+    snapshot: readSnapshot(storage),
+    schemaVersion: storage.getSchemaManifest()?.version || 0,
+  };
+}
+
+// Restore a snapshot taken at `schemaVersion`. 'replace' wipes every collection
+// first; 'merge' overwrites matching records and keeps the rest.
+export function restoreData(snapshot: StorageSnapshot, schemaVersion: number, mode: 'replace' | 'merge'): void {
+  withAuditOperation('restoreData', () => {
+    withTransaction(() => {
+      if (mode === 'replace') {
+        storage.clear();
+      }
+      writeSnapshot(storage, snapshot);
+
+      // Records from an older snapshot still need the migrations they predate
+      const manifest = storage.getSchemaManifest();
+      if (manifest && schemaVersion < manifest.version) {
+        storage.saveSchemaManifest({ ...manifest, version: schemaVersion });
+      }
+
+      // Earlier commands no longer describe the data
+      storage.saveCommandHistory({ undo: [], redo: [] });
+    });
+    runMigrations(storage);
+  });
 }
 
 // Accounts
 export function getAccounts(): Account[] {
-  return readJsonFile<Account[]>('accounts.json', []);
+  return storage.getAccounts();
 }
 
 export function saveAccount(account: Account): void {
-  const accounts = getAccounts();
-  const existingIndex = accounts.findIndex(a => a.id === account.id);
-  if (existingIndex >= 0) {
-    accounts[existingIndex] = account;
-  } else {
-    accounts.push(account);
+  storage.saveAccount(account);
+}
+
+// Deletes an account (by itemId) with its transactions, their links, its CSV uploads,
+// its balance history and its sync cursor. Returns how many transactions were removed.
+// A Plaid account also gets a pending item removal (see itemRemoval.ts); since
+// revoking the item with Plaid can't be reversed, only CSV accounts can be undone.
+export function deleteAccount(id: string): number {
+  const account = storage.getAccounts().find(a => a.id === id);
+
+  if (account?.accessToken) {
+    return runOperation('deleteAccount', () => {
+      const removed = removeAccountData(id);
+      storage.saveItemRemoval({
+        itemId: account.itemId,
+        institution: account.institution,
+        accessToken: account.accessToken,
+        requestedAt: new Date().toISOString(),
+        status: 'pending',
+        revokedAt: null,
+        attempts: 0,
+        lastError: null,
+      });
+      return removed;
+    });
   }
-  writeJsonFile('accounts.json', accounts);
+
+  const describe = () => `Deleted account ${account?.institution || id}`;
+  return runCommand('deleteAccount', describe, () => removeAccountData(id));
 }
 
-export function deleteAccount(id: string): void {
-  const accounts = getAccounts().filter(a => a.id !== id);
-  writeJsonFile('accounts.json', accounts);
+function removeAccountData(id: string): number {
+  const transactionIds = storage.getTransactions()
+    .filter(t => t.itemId === id)
+    .map(t => t.transactionId);
+
+  removeTransactionsAndLinks(transactionIds);
+  storage.deleteCsvUploadsForAccount(id);
+  storage.deleteDailyBalancesForItem(id);
+  storage.deleteSyncCursor(id);
+  storage.deleteAccount(id);
+
+  return transactionIds.length;
 }
 
 // Tenants
 export function getTenants(): Tenant[] {
-  return readJsonFile<Tenant[]>('tenants.json', []);
+  return storage.getTenants();
 }
 
 export function saveTenant(tenant: Tenant): void {
-  const tenants = getTenants();
-  const existingIndex = tenants.findIndex(t => t.id === tenant.id);
-  if (existingIndex >= 0) {
-    tenants[existingIndex] = tenant;
-  } else {
-    tenants.push(tenant);
-  }
-  writeJsonFile('tenants.json', tenants);
+  storage.saveTenant(tenant);
 }
 
+// Deletes a tenant along with its transaction assignments and rejected matches
 export function deleteTenant(id: string): void {
-  const tenants = getTenants().filter(t => t.id !== id);
-  writeJsonFile('tenants.json', tenants);
+  runCommand('deleteTenant', () => `Deleted tenant ${describeTenant(id)}`, () => {
+    storage.removeTenantTransactionsForTenant(id);
+    storage.removeRejectedMatchesForTenant(id);
+    storage.deleteTenant(id);
+  });
 }
 
 // Rent Payments
 export function getRentPayments(): RentPayment[] {
-  return readJsonFile<RentPayment[]>('rent-payments.json', []);
+  return storage.getRentPayments();
 }
 
 export function saveRentPayment(payment: RentPayment): void {
-  const payments = getRentPayments();
-  const existingIndex = payments.findIndex(
-    p => p.tenantId === payment.tenantId && p.month === payment.month
-  );
-  if (existingIndex >= 0) {
-    payments[existingIndex] = payment;
-  } else {
-    payments.push(payment);
-  }
-  writeJsonFile('rent-payments.json', payments);
+  storage.saveRentPayment(payment);
 }
 
 export function getRentPaymentsForMonth(month: string): RentPayment[] {
-  return getRentPayments().filter(p => p.month === month);
+  return storage.getRentPaymentsForMonth(month);
+}
+
+// Plaid account IDs of linked accounts the user has excluded
+export function getExcludedAccountIds(): Set<string> {
+  return new Set(
+    storage.getAccounts().flatMap(a => a.linkedAccounts.filter(l => l.excluded).map(l => l.accountId))
+  );
+}
+
+// Drop transactions belonging to excluded linked accounts
+function withoutExcluded(transactions: Transaction[]): Transaction[] {
+  const excluded = getExcludedAccountIds();
+  return excluded.size > 0 ? transactions.filter(t => !excluded.has(t.accountId)) : transactions;
 }
 
-// Transactions
+// Transactions (the getters leave out excluded linked accounts)
 export function getTransactions(): Transaction[] {
-  return readJsonFile<Transaction[]>('transactions.json', []);
+  return withoutExcluded(storage.getTransactions());
+}
+
+// IDs of every stored transaction, excluded accounts included: what an import
+// already has
+export function getStoredTransactionIds(): Set<string> {
+  return new Set(storage.getTransactions().map(t => t.transactionId));
 }
 
 export function getTransactionsByDateRange(startDate: string, endDate: string): Transaction[] {
-  return getTransactions().filter(t => t.date >= startDate && t.date <= endDate);
+  return withoutExcluded(storage.getTransactionsByDateRange(startDate, endDate));
 }
 
 export function getDeposits(): Transaction[] {
-  return getTransactions().filter(t => t.amount < 0);
+  return withoutExcluded(storage.getDeposits());
 }
 
 export function getDepositsByDateRange(startDate: string, endDate: string): Transaction[] {
-  return getTransactions().filter(t => t.amount < 0 && t.date >= startDate && t.date <= endDate);
+  return withoutExcluded(storage.getDepositsByDateRange(startDate, endDate));
 }
 
+// Adds new transactions, skipping any whose transactionId is already stored
 export function saveTransactions(transactions: Transaction[]): void {
-  const existing = getTransactions();
-  const existingIds = new Set(existing.map(t => t.transactionId));
-
-  // Add new transactions
-  const newTransactions = transactions.filter(t => !existingIds.has(t.transactionId));
-  const updated = [...existing, ...newTransactions];
-
-  writeJsonFile('transactions.json', updated);
+  storage.saveTransactions(transactions);
 }
 
 export function updateTransactions(transactions: Transaction[]): void {
-  const existing = getTransactions();
-  const updateMap = new Map(transactions.map(t => [t.transactionId, t]));
-
-  const updated = existing.map(t => updateMap.get(t.transactionId) || t);
-  writeJsonFile('transactions.json', updated);
+  storage.updateTransactions(transactions);
 }
 
 export function removeTransactions(transactionIds: string[]): void {
-  const idsToRemove = new Set(transactionIds);
-  const transactions = getTransactions().filter(t => !idsToRemove.has(t.transactionId));
-  writeJsonFile('transactions.json', transactions);
+  storage.removeTransactions(transactionIds);
+}
+
+// Replace an item's stored transactions with a complete fresh copy of its
+// history (see backfillAccount in sync.ts). Transactions that come back keep
+// their tenant links and rejected matches; the rest are removed along with
+// theirs. Excluded linked accounts' transactions are left alone.
+export function replaceItemTransactions(
+  itemId: string,
+  fetched: Transaction[]
+): { added: number; updated: number; removed: number } {
+  return runOperation('replaceItemTransactions', () => {
+    const excluded = getExcludedAccountIds();
+    const stored = storage.getTransactions().filter(t => t.itemId === itemId && !excluded.has(t.accountId));
+    const storedIds = new Set(stored.map(t => t.transactionId));
+    const fetchedIds = new Set(fetched.map(t => t.transactionId));
+
+    const added = fetched.filter(t => !storedIds.has(t.transactionId));
+    const updated = fetched.filter(t => storedIds.has(t.transactionId));
+    storage.saveTransactions(added);
+    storage.updateTransactions(updated);
+    reconcilePendingTransactions(fetched);
+
+    const removedIds = stored.map(t => t.transactionId).filter(id => !fetchedIds.has(id));
+    removeTransactionsAndLinks(removedIds);
+
+    return { added: added.length, updated: updated.length, removed: removedIds.length };
+  });
 }
 
 // Sync Cursors
 export function getSyncCursors(): SyncCursor[] {
-  return readJsonFile<SyncCursor[]>('sync-cursors.json', []);
+  return storage.getSyncCursors();
 }
 
 export function getSyncCursor(itemId: string): SyncCursor | undefined {
-  return getSyncCursors().find(c => c.itemId === itemId);
+  return storage.getSyncCursor(itemId);
 }
 
 export function saveSyncCursor(cursor: SyncCursor): void {
-  const cursors = getSyncCursors();
-  const existingIndex = cursors.findIndex(c => c.itemId === cursor.itemId);
-  if (existingIndex >= 0) {
-    cursors[existingIndex] = cursor;
-  } else {
-    cursors.push(cursor);
-  }
-  writeJsonFile('sync-cursors.json', cursors);
+  storage.saveSyncCursor(cursor);
 }
 
 // Tenant Transactions (links between tenants and transactions)
 export function getTenantTransactions(): TenantTransaction[] {
-  return readJsonFile<TenantTransaction[]>('tenant-transactions.json', []);
+  return storage.getTenantTransactions();
 }
 
 export function getTenantTransactionsForTenant(tenantId: string): TenantTransaction[] {
-  return getTenantTransactions().filter(tt => tt.tenantId === tenantId);
+  return storage.getTenantTransactionsForTenant(tenantId);
 }
 
 export function getTenantTransactionByTransactionId(transactionId: string): TenantTransaction | undefined {
-  return getTenantTransactions().find(tt => tt.transactionId === transactionId);
+  return storage.getTenantTransactionByTransactionId(transactionId);
 }
 
 export function addTenantTransaction(tenantId: string, transactionId: string, manualOverride: boolean): void {
-  const existing = getTenantTransactions();
-
   // Check if this transaction is already assigned
-  const alreadyAssigned = existing.find(tt => tt.transactionId === transactionId);
+  const alreadyAssigned = storage.getTenantTransactionByTransactionId(transactionId);
   if (alreadyAssigned) {
     return; // Don't duplicate
   }
 
-  existing.push({
+  storage.addTenantTransaction({
     id: `${tenantId}-${transactionId}`,
     tenantId,
     transactionId,
     manualOverride,
   });
+}
+
+// Names used in undo/redo descriptions
+function describeTenant(tenantId: string): string {
+  return storage.getTenants().find(t => t.id === tenantId)?.name || 'tenant';
+}
+
+function describeTransaction(transactionId: string): string {
+  const transaction = storage.getTransactions().find(t => t.transactionId === transactionId);
+  return transaction
+    ? `"${transaction.name}" (${formatCurrency(Math.abs(transaction.amount), transaction.isoCurrencyCode, 'en-US')}, ${transaction.date})`
+    : 'transaction';
+}
+
+// Thrown when assigning a transaction to a tenant whose rent is in another currency
+export class CurrencyMismatchError extends Error {}
+
+// Manual assignment: clears any earlier rejection (the user changed their mind)
+export function assignTransaction(tenantId: string, transactionId: string): void {
+  const tenant = storage.getTenants().find(t => t.id === tenantId);
+  const transaction = storage.getTransactions().find(t => t.transactionId === transactionId);
+  if (tenant && transaction && tenant.isoCurrencyCode !== transaction.isoCurrencyCode) {
+    throw new CurrencyMismatchError(
+      `${tenant.name}'s rent is in ${tenant.isoCurrencyCode}, but this transaction is in ${transaction.isoCurrencyCode}`
+    );
+  }
+
+  const describe = () => `Assigned ${describeTransaction(transactionId)} to ${describeTenant(tenantId)}`;
+  runCommand('assignTransaction', describe, () => {
+    storage.removeRejectedMatch(tenantId, transactionId);
+    addTenantTransaction(tenantId, transactionId, true);
+  });
+}
 
-  writeJsonFile('tenant-transactions.json', existing);
+// Manual removal: records a rejected match so auto-match won't re-assign it
+export function unassignTransaction(transactionId: string): void {
+  const describe = () => {
+    const assignment = storage.getTenantTransactionByTransactionId(transactionId);
+    return `Removed ${describeTransaction(transactionId)}` +
+      (assignment ? ` from ${describeTenant(assignment.tenantId)}` : '');
+  };
+  runCommand('unassignTransaction', describe, () => {
+    const assignment = storage.getTenantTransactionByTransactionId(transactionId);
+    if (assignment) {
+      storage.addRejectedMatch({ tenantId: assignment.tenantId, transactionId });
+    }
+    storage.removeTenantTransactions([transactionId]);
+  });
 }
 
 export function removeTenantTransaction(transactionId: string): void {
-  const transactions = getTenantTransactions().filter(tt => tt.transactionId !== transactionId);
-  writeJsonFile('tenant-transactions.json', transactions);
+  storage.removeTenantTransactions([transactionId]);
 }
 
 export function removeTenantTransactionsForTenant(tenantId: string): void {
-  const transactions = getTenantTransactions().filter(tt => tt.tenantId !== tenantId);
-  writeJsonFile('tenant-transactions.json', transactions);
+  storage.removeTenantTransactionsForTenant(tenantId);
+}
+
+export function removeTenantTransactionsForTransactions(transactionIds: string[]): void {
+  storage.removeTenantTransactions(transactionIds);
+}
+
+// When a pending transaction posts, Plaid sends the posted one under a new ID
+// (pointing back via pendingTransactionId) and removes the pending one. Move the
+// pending transaction's tenant link and rejected matches over to the posted one
+// so an assignment made while it was pending isn't lost. Returns how many
+// transactions had something carried over.
+export function reconcilePendingTransactions(posted: Transaction[]): number {
+  return runOperation('reconcilePendingTransactions', () => {
+    let reconciled = 0;
+
+    for (const transaction of posted) {
+      const pendingId = transaction.pendingTransactionId;
+      if (!pendingId) continue;
+
+      const link = storage.getTenantTransactionByTransactionId(pendingId);
+      const rejections = storage.getRejectedMatches().filter(rm => rm.transactionId === pendingId);
+      if (!link && rejections.length === 0) continue;
+
+      if (link) {
+        storage.removeTenantTransactions([pendingId]);
+        if (!storage.getTenantTransactionByTransactionId(transaction.transactionId)) {
+          storage.addTenantTransaction({
+            ...link,
+            id: `${link.tenantId}-${transaction.transactionId}`,
+            transactionId: transaction.transactionId,
+          });
+        }
+      }
+
+      storage.removeRejectedMatchesForTransactions([pendingId]);
+      for (const rejection of rejections) {
+        storage.addRejectedMatch({ tenantId: rejection.tenantId, transactionId: transaction.transactionId });
+      }
+
+      reconciled++;
+    }
+
+    return reconciled;
+  });
 }
 
 // Re-evaluate auto-matched transactions for a tenant after their criteria change
 // Removes auto-matched transactions that no longer match, keeps manual ones
 export function reEvaluateTenantMatches(tenant: Tenant): number {
-  const tenantTransactions = getTenantTransactions();
   const allTransactions = getTransactions();
 
   // Get auto-matched transactions for this tenant (not manually assigned)
-  const autoMatched = tenantTransactions.filter(
-    tt => tt.tenantId === tenant.id && !tt.manualOverride
-  );
+  const autoMatched = getTenantTransactionsForTenant(tenant.id).filter(tt => !tt.manualOverride);
 
   const transactionsToRemove: string[] = [];
-  const matchMode = tenant.matchMode || 'searchTerms';
-
   for (const tt of autoMatched) {
     const transaction = allTransactions.find(t => t.transactionId === tt.transactionId);
     if (!transaction) {
@@ -302,18 +713,23 @@ export function reEvaluateTenantMatches(tenant: Tenant): number {
       continue;
     }
 
+    if (transaction.isoCurrencyCode !== tenant.isoCurrencyCode) {
+      // The tenant's rent is now in another currency
+      transactionsToRemove.push(tt.transactionId);
+      continue;
+    }
+
     const depositAmount = Math.abs(transaction.amount);
     let stillMatches = false;
 
-    if (matchMode === 'exactAmounts') {
+    if (tenant.matchMode === 'exactAmounts') {
       // Exact amount matching
-      const exactAmounts = tenant.exactAmounts || [];
-      stillMatches = exactAmounts.some(amount =>
+      stillMatches = tenant.exactAmounts.some(amount =>
         Math.abs(depositAmount - amount) < 0.01
       );
     } else {
       // Search terms mode
-      const description = `${transaction.name} ${transaction.merchantName || ''}`.toUpperCase();
+      const description = getMatchText(transaction);
       const minAmount = tenant.expectedRent - tenant.tolerance;
       const maxAmount = tenant.expectedRent + tenant.tolerance;
 
@@ -331,10 +747,7 @@ export function reEvaluateTenantMatches(tenant: Tenant): number {
 
   // Remove transactions that no longer match
   if (transactionsToRemove.length > 0) {
-    const remaining = tenantTransactions.filter(
-      tt => !transactionsToRemove.includes(tt.transactionId)
-    );
-    writeJsonFile('tenant-transactions.json', remaining);
+    runOperation('reEvaluateTenantMatches', () => storage.removeTenantTransactions(transactionsToRemove));
   }
 
   return transactionsToRemove.length;
@@ -342,73 +755,200 @@ export function reEvaluateTenantMatches(tenant: Tenant): number {
 
 // Rejected Matches (prevents auto-matching from re-assigning removed transactions)
 export function getRejectedMatches(): RejectedMatch[] {
-  return readJsonFile<RejectedMatch[]>('rejected-matches.json', []);
+  return storage.getRejectedMatches();
 }
 
 export function addRejectedMatch(tenantId: string, transactionId: string): void {
-  const existing = getRejectedMatches();
-
-  // Check if already rejected
-  const alreadyRejected = existing.find(
-    rm => rm.tenantId === tenantId && rm.transactionId === transactionId
-  );
-  if (alreadyRejected) {
-    return;
-  }
-
-  existing.push({ tenantId, transactionId });
-  writeJsonFile('rejected-matches.json', existing);
+  storage.addRejectedMatch({ tenantId, transactionId });
 }
 
 export function isMatchRejected(tenantId: string, transactionId: string): boolean {
-  return getRejectedMatches().some(
-    rm => rm.tenantId === tenantId && rm.transactionId === transactionId
-  );
+  return storage.isMatchRejected(tenantId, transactionId);
 }
 
 export function removeRejectedMatch(tenantId: string, transactionId: string): void {
-  const rejected = getRejectedMatches().filter(
-    rm => !(rm.tenantId === tenantId && rm.transactionId === transactionId)
-  );
-  writeJsonFile('rejected-matches.json', rejected);
+  storage.removeRejectedMatch(tenantId, transactionId);
 }
 
 export function removeRejectedMatchesForTenant(tenantId: string): void {
-  const rejected = getRejectedMatches().filter(rm => rm.tenantId !== tenantId);
-  writeJsonFile('rejected-matches.json', rejected);
+  storage.removeRejectedMatchesForTenant(tenantId);
+}
+
+export function removeRejectedMatchesForTransactions(transactionIds: string[]): void {
+  storage.removeRejectedMatchesForTransactions(transactionIds);
 }
 
 // CSV Uploads
 export function getCsvUploads(): CsvUpload[] {
-  return readJsonFile<CsvUpload[]>('csv-uploads.json', []);
+  return storage.getCsvUploads();
 }
 
 export function getCsvUploadsForAccount(accountId: string): CsvUpload[] {
-  return getCsvUploads().filter(u => u.accountId === accountId);
+  return storage.getCsvUploadsForAccount(accountId);
 }
 
 export function saveCsvUpload(upload: CsvUpload): void {
-  const uploads = getCsvUploads();
-  const existingIndex = uploads.findIndex(u => u.id === upload.id);
-  if (existingIndex >= 0) {
-    uploads[existingIndex] = upload;
-  } else {
-    uploads.push(upload);
-  }
-  writeJsonFile('csv-uploads.json', uploads);
+  storage.saveCsvUpload(upload);
 }
 
+// Deletes a CSV upload with the transactions it imported and their links
 export function deleteCsvUpload(uploadId: string): CsvUpload | null {
-  const uploads = getCsvUploads();
-  const upload = uploads.find(u => u.id === uploadId);
-  if (!upload) return null;
-
-  const remaining = uploads.filter(u => u.id !== uploadId);
-  writeJsonFile('csv-uploads.json', remaining);
-  return upload;
+  const describe = () => `Deleted CSV upload ${storage.getCsvUploads().find(u => u.id === uploadId)?.filename || uploadId}`;
+  return runCommand('deleteCsvUpload', describe, () => {
+    const upload = storage.deleteCsvUpload(uploadId);
+    if (upload) {
+      removeTransactionsAndLinks(upload.transactionIds);
+    }
+    return upload;
+  });
 }
 
 export function deleteCsvUploadsForAccount(accountId: string): void {
-  const uploads = getCsvUploads().filter(u => u.accountId !== accountId);
-  writeJsonFile('csv-uploads.json', uploads);
+  storage.deleteCsvUploadsForAccount(accountId);
+}
+
+// Stop or resume tracking one linked account of a Plaid item. Excluding can
+// also purge the transactions already synced from it (with their links).
+// Resuming restarts the item's sync from the beginning so transactions skipped
+// in the meantime are fetched; ones already stored are left as they are.
+// Returns how many transactions were purged.
+export function setLinkedAccountExcluded(
+  itemId: string,
+  accountId: string,
+  excluded: boolean,
+  purge = false
+): number {
+  const describe = () => {
+    const linked = storage.getAccounts()
+      .find(a => a.itemId === itemId)?.linkedAccounts.find(l => l.accountId === accountId);
+    const name = linked ? `${linked.name}${linked.mask ? ` ****${linked.mask}` : ''}` : accountId;
+    return `${excluded ? 'Stopped' : 'Resumed'} tracking ${name}`;
+  };
+
+  return runCommand(excluded ? 'excludeLinkedAccount' : 'includeLinkedAccount', describe, () => {
+    const account = storage.getAccounts().find(a => a.itemId === itemId);
+    if (!account || !account.linkedAccounts.some(l => l.accountId === accountId)) {
+      throw new Error(`Linked account ${accountId} not found`);
+    }
+
+    storage.saveAccount({
+      ...account,
+      linkedAccounts: account.linkedAccounts.map(l => (l.accountId === accountId ? { ...l, excluded } : l)),
+    });
+
+    const cursor = storage.getSyncCursor(itemId);
+    if (!excluded && cursor?.cursor) {
+      storage.saveSyncCursor({ ...cursor, cursor: '' });
+    }
+
+    if (!excluded || !purge) return 0;
+
+    const transactionIds = storage.getTransactions()
+      .filter(t => t.itemId === itemId && t.accountId === accountId)
+      .map(t => t.transactionId);
+    removeTransactionsAndLinks(transactionIds);
+    storage.getDailyBalancesForAccount(accountId).forEach(b => storage.deleteDailyBalance(b.accountId, b.date));
+    return transactionIds.length;
+  });
+}
+
+// Save how a CSV account's uploads are read, or pass null to detect it again
+// from the next upload. Transactions already imported aren't changed.
+export function setCsvProfile(itemId: string, profile: CsvProfile | null): void {
+  const describe = () => {
+    const institution = storage.getAccounts().find(a => a.itemId === itemId)?.institution || itemId;
+    return `${profile ? 'Saved' : 'Reset'} the CSV column mapping for ${institution}`;
+  };
+
+  runCommand(profile ? 'saveCsvProfile' : 'resetCsvProfile', describe, () => {
+    const account = storage.getAccounts().find(a => a.itemId === itemId);
+    if (!account) {
+      throw new Error(`Account ${itemId} not found`);
+    }
+    storage.saveAccount({ ...account, csvProfile: profile });
+  });
+}
+
+// Balances (excluded linked accounts are left out)
+export function getDailyBalances(): DailyBalance[] {
+  const excluded = getExcludedAccountIds();
+  return storage.getDailyBalances().filter(b => !excluded.has(b.accountId));
+}
+
+export function getDailyBalancesForAccount(accountId: string): DailyBalance[] {
+  return getExcludedAccountIds().has(accountId) ? [] : storage.getDailyBalancesForAccount(accountId);
+}
+
+// Store freshly fetched linked accounts (with their balances) on an account and
+// add today's entry to each one's balance history. Exclusions carry over.
+export function recordBalances(itemId: string, fetched: LinkedAccount[]): void {
+  runOperation('recordBalances', () => {
+    const account = storage.getAccounts().find(a => a.itemId === itemId);
+    if (!account) return;
+
+    const excluded = new Set(account.linkedAccounts.filter(l => l.excluded).map(l => l.accountId));
+    const linkedAccounts = fetched.map(l => ({ ...l, excluded: excluded.has(l.accountId) }));
+    storage.saveAccount({ ...account, linkedAccounts });
+
+    const date = new Date().toISOString().split('T')[0];
+    for (const linked of linkedAccounts) {
+      if (!linked.balance || linked.excluded) continue;
+      storage.saveDailyBalance({
+        accountId: linked.accountId,
+        itemId,
+        date,
+        current: linked.balance.current,
+        available: linked.balance.available,
+      });
+    }
+  });
+}
+
+// Add balances read from a bank statement file (see statement.ts) to the
+// balance history
+export function saveDailyBalances(balances: DailyBalance[]): void {
+  runOperation('saveDailyBalances', () => {
+    for (const balance of balances) {
+      storage.saveDailyBalance(balance);
+    }
+  });
+}
+
+// Item Removals
+export function getItemRemovals(): ItemRemoval[] {
+  return storage.getItemRemovals();
+}
+
+export function saveItemRemoval(removal: ItemRemoval): void {
+  storage.saveItemRemoval(removal);
+}
+
+// Job Runs (most recent first, capped at MAX_JOB_RUNS)
+const MAX_JOB_RUNS = 200;
+
+export function getJobRuns(): JobRun[] {
+  return storage.getJobRuns();
+}
+
+// Adds the run, or replaces it if one with the same ID was saved already
+export function saveJobRun(run: JobRun): void {
+  withTransaction(() => {
+    const runs = storage.getJobRuns().filter(r => r.id !== run.id);
+    storage.saveJobRuns([run, ...runs].slice(0, MAX_JOB_RUNS));
+  });
+}
+
+// Sync Runs (most recent first, capped at MAX_SYNC_RUNS)
+const MAX_SYNC_RUNS = 100;
+
+export function getSyncRuns(): SyncRun[] {
+  return storage.getSyncRuns();
+}
+
+// Adds the run, or replaces it if one with the same ID was saved already
+export function saveSyncRun(run: SyncRun): void {
+  withTransaction(() => {
+    const runs = storage.getSyncRuns().filter(r => r.id !== run.id);
+    storage.saveSyncRuns([run, ...runs].slice(0, MAX_SYNC_RUNS));
+  });
 }
@@ -1,5 +1,6 @@
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
+import { formatCurrency, formatCurrencyTotals, sumByCurrency } from './currency';
 
 interface Tenant {
   id: string;
@@ -11,6 +12,7 @@ interface Tenant {
   accountId: string;
   matchMode: 'searchTerms' | 'exactAmounts';
   exactAmounts: number[];
+  isoCurrencyCode: string;
 }
 
 interface Transaction {
@@ -18,6 +20,7 @@ interface Transaction {
   accountId: string;
   itemId: string;
   amount: number;
+  isoCurrencyCode: string;
   date: string;
   name: string;
   merchantName?: string;
@@ -28,9 +31,12 @@ interface Transaction {
 interface TenantWithPayments {
   tenant: Tenant;
   transactions: Transaction[];
-  totalPaid: number;
+  totalPaid: number;       // in the tenant's currency
 }
 
+// Amounts are always shown the US way ("€1,200.00"), whatever the currency
+const formatAmount = (amount: number, currency: string) => formatCurrency(amount, currency, 'en-US');
+
 interface ReportOptions {
   startDate?: Date;
   endDate?: Date;
@@ -76,7 +82,7 @@ export function generateTenantReport(
   const summaryData = tenantsWithPayments.map(item => [
     item.tenant.name,
     item.tenant.property.length > 45 ? item.tenant.property.substring(0, 42) + '...' : item.tenant.property,
-    `$${item.totalPaid.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`,
+    formatAmount(item.totalPaid, item.tenant.isoCurrencyCode),
     item.transactions.length.toString()
   ]);
 
@@ -114,12 +120,13 @@ export function generateTenantReport(
   // Grand totals
   yPosition = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 8;
 
-  const totalReceived = tenantsWithPayments.reduce((sum, item) => sum + item.totalPaid, 0);
+  // Tenants paying in different currencies get a total for each
+  const totalReceived = sumByCurrency(tenantsWithPayments, item => item.totalPaid, item => item.tenant.isoCurrencyCode);
   const totalPayments = tenantsWithPayments.reduce((sum, item) => sum + item.transactions.length, 0);
 
   doc.setFontSize(11);
   doc.setFont('helvetica', 'bold');
-  doc.text(`Total Received: $${totalReceived.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`, 14, yPosition);
+  doc.text(`Total Received: ${formatCurrencyTotals(totalReceived, 'en-US')}`, 14, yPosition);
   yPosition += 6;
   doc.text(`Total Payments: ${totalPayments}`, 14, yPosition);
 
@@ -173,11 +180,11 @@ export function generateTenantReport(
     if (tenant.matchMode === 'exactAmounts' && tenant.exactAmounts.length > 0) {
       // Show all exact amounts
       const amountsText = tenant.exactAmounts
-        .map(amt => `$${amt.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`)
+        .map(amt => formatAmount(amt, tenant.isoCurrencyCode))
         .join(', ');
       doc.text(amountsText, 50, yPosition);
     } else {
-      doc.text(`$${tenant.expectedRent.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`, 50, yPosition);
+      doc.text(formatAmount(tenant.expectedRent, tenant.isoCurrencyCode), 50, yPosition);
     }
     yPosition += 10;
 
@@ -186,7 +193,7 @@ export function generateTenantReport(
       const tableData = transactions.map(txn => [
         txn.date,
         txn.name.length > 50 ? txn.name.substring(0, 47) + '...' : txn.name,
-        `$${txn.displayAmount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+        formatAmount(txn.displayAmount, txn.isoCurrencyCode)
       ]);
 
       autoTable(doc, {
@@ -218,7 +225,7 @@ export function generateTenantReport(
       doc.setFont('helvetica', 'bold');
       doc.text('Total Received:', 14, yPosition);
       doc.text(
-        `$${totalPaid.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`,
+        formatAmount(totalPaid, tenant.isoCurrencyCode),
         pageWidth - 14,
         yPosition,
         { align: 'right' }
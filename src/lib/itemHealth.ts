@@ -0,0 +1,43 @@
+import { getAccounts, saveAccount, withTransaction, type Account } from './data';
+
+// Errors the user can only fix by signing in to their bank again (Link update mode)
+const REAUTH_ERROR_CODES = new Set(['ITEM_LOGIN_REQUIRED', 'PENDING_EXPIRATION', 'PENDING_DISCONNECT']);
+
+// Advance warnings: syncing keeps working until the deadline, so a successful
+// sync doesn't clear them; only reconnecting does
+const WARNING_CODES = new Set(['PENDING_EXPIRATION', 'PENDING_DISCONNECT']);
+
+function updateAccount(itemId: string, changes: (account: Account) => Partial<Account> | null): void {
+  withTransaction(() => {
+    const account = getAccounts().find(a => a.itemId === itemId);
+    const updates = account && changes(account);
+    if (account && updates) {
+      saveAccount({ ...account, ...updates });
+    }
+  });
+}
+
+export function recordItemError(itemId: string, errorCode: string): void {
+  updateAccount(itemId, account => ({
+    lastErrorCode: errorCode,
+    lastErrorAt: new Date().toISOString(),
+    needsReauth: account.needsReauth || REAUTH_ERROR_CODES.has(errorCode),
+  }));
+}
+
+export function recordSyncSucceeded(itemId: string): void {
+  updateAccount(itemId, account =>
+    account.lastErrorCode && !WARNING_CODES.has(account.lastErrorCode)
+      ? { lastErrorCode: null, lastErrorAt: null, needsReauth: false }
+      : null
+  );
+}
+
+// After the user has been through Link update mode (or Plaid reports LOGIN_REPAIRED)
+export function recordItemReconnected(itemId: string): void {
+  updateAccount(itemId, account =>
+    account.lastErrorCode || account.needsReauth
+      ? { lastErrorCode: null, lastErrorAt: null, needsReauth: false }
+      : null
+  );
+}
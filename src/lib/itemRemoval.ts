@@ -0,0 +1,58 @@
+import { getPlaidErrorCode, removeItem } from './plaid';
+import { getItemRemovals, saveItemRemoval, type ItemRemoval } from './data';
+
+// Plaid no longer knows the item (it was removed already, e.g. by an earlier
+// attempt whose response was lost), so there's nothing left to revoke
+const ALREADY_REMOVED_CODES = new Set(['ITEM_NOT_FOUND', 'INVALID_ACCESS_TOKEN']);
+
+// Ask Plaid to remove a deleted account's item. On failure the removal stays
+// pending with the error recorded, to be retried later.
+export async function revokeItem(removal: ItemRemoval): Promise<ItemRemoval> {
+  let updated: ItemRemoval;
+  try {
+    await removeItem(removal);
+    updated = revoked(removal);
+  } catch (error) {
+    const errorCode = getPlaidErrorCode(error);
+    if (errorCode && ALREADY_REMOVED_CODES.has(errorCode)) {
+      updated = revoked(removal);
+    } else {
+      console.error(`Error removing Plaid item for ${removal.institution}:`, error);
+      updated = {
+        ...removal,
+        attempts: removal.attempts + 1,
+        lastError: errorCode || (error instanceof Error ? error.message : String(error)),
+      };
+    }
+  }
+
+  saveItemRemoval(updated);
+  return updated;
+}
+
+function revoked(removal: ItemRemoval): ItemRemoval {
+  return {
+    ...removal,
+    accessToken: '',
+    status: 'revoked',
+    revokedAt: new Date().toISOString(),
+    attempts: removal.attempts + 1,
+    lastError: null,
+  };
+}
+
+export function getPendingRemovals(): ItemRemoval[] {
+  return getItemRemovals().filter(r => r.status === 'pending');
+}
+
+// Retry every removal that hasn't gone through yet. Returns those still pending.
+export async function retryPendingRemovals(): Promise<ItemRemoval[]> {
+  const stillPending: ItemRemoval[] = [];
+  for (const removal of getPendingRemovals()) {
+    const result = await revokeItem(removal);
+    if (result.status === 'pending') {
+      stillPending.push(result);
+    }
+  }
+  return stillPending;
+}
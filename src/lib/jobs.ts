@@ -0,0 +1,214 @@
+import { randomUUID } from 'crypto';
+import { getAccounts, getJobRuns, saveJobRun, type JobRun } from './data';
+import { syncAccounts } from './sync';
+import { autoMatchTransactions } from './matching';
+import { retryPendingRemovals } from './itemRemoval';
+import { withAuditSource } from './audit';
+import { nextCronRun, parseCron, type CronSchedule } from './cron';
+
+// Background jobs, run on a cron schedule by the server (see startScheduler,
+// called from src/instrumentation.ts) or by hand through /api/jobs. A job is
+// scheduled only when its environment variable holds a cron expression.
+
+interface JobOutcome {
+  summary: string;
+  error: string | null;    // set when the job finished but part of it failed
+}
+
+interface Job {
+  name: string;
+  description: string;
+  scheduleEnv: string;     // environment variable holding its cron expression
+  run(trigger: JobRun['trigger']): Promise<JobOutcome>;
+}
+
+export interface JobStatus {
+  name: string;
+  description: string;
+  schedule: string | null; // cron expression, null when it only runs by hand
+  scheduleError: string | null; // why the configured schedule was rejected
+  nextRunAt: string | null; // ISO timestamp
+  running: boolean;
+  lastRun: JobRun | null;
+}
+
+// Thrown when a job is started while a run of it is still going
+export class JobAlreadyRunningError extends Error {}
+
+const JOBS: Job[] = [
+  {
+    name: 'plaid-sync',
+    description: 'Sync every Plaid bank connection, then auto-match new deposits',
+    scheduleEnv: 'SYNC_CRON',
+    async run(trigger) {
+      const run = await withAuditSource('plaid-sync', () => syncAccounts(getAccounts(), trigger));
+      const matched = withAuditSource('auto-match', () => autoMatchTransactions());
+      const stillPending = await withAuditSource('plaid-sync', () => retryPendingRemovals());
+
+      const total = (field: 'added' | 'modified' | 'removed') =>
+        run.items.reduce((sum, item) => sum + item[field], 0);
+      const failed = run.items.filter(item => item.status === 'failed');
+
+      return {
+        summary: `${total('added')} added, ${total('modified')} modified, ` +
+          `${total('removed')} removed, ${matched} matched` +
+          (stillPending.length > 0 ? `; ${stillPending.length} item removals still pending` : ''),
+        error: failed.length > 0
+          ? `Failed to sync ${failed.map(item => `${item.institution} (${item.errorCode || item.error})`).join(', ')}`
+          : null,
+      };
+    },
+  },
+  {
+    name: 'auto-match',
+    description: 'Match unassigned deposits to tenants',
+    scheduleEnv: 'MATCH_CRON',
+    async run() {
+      const matched = withAuditSource('auto-match', () => autoMatchTransactions());
+      return { summary: `${matched} matched`, error: null };
+    },
+  },
+];
+
+function findJob(name: string): Job | undefined {
+  return JOBS.find(job => job.name === name);
+}
+
+export function isJobName(name: unknown): boolean {
+  return typeof name === 'string' && !!findJob(name);
+}
+
+function getSchedule(job: Job): { schedule: CronSchedule | null; error: string | null } {
+  const expression = process.env[job.scheduleEnv]?.trim();
+  if (!expression) {
+    return { schedule: null, error: null };
+  }
+  try {
+    return { schedule: parseCron(expression), error: null };
+  } catch (error) {
+    return { schedule: null, error: `${job.scheduleEnv}: ${(error as Error).message}` };
+  }
+}
+
+// Runs are stored rather than kept in memory, since route handlers and the
+// scheduler don't necessarily share module state
+function getRunningRun(name: string): JobRun | undefined {
+  return getJobRuns().find(run => run.job === name && run.status === 'running');
+}
+
+// Run a job now and record the outcome. Throws JobAlreadyRunningError if it's
+// already running; errors from the job itself are recorded, not thrown.
+export async function runJob(name: string, trigger: JobRun['trigger']): Promise<JobRun> {
+  const job = findJob(name);
+  if (!job) {
+    throw new Error(`Unknown job "${name}"`);
+  }
+  if (getRunningRun(name)) {
+    throw new JobAlreadyRunningError(`${name} is already running`);
+  }
+
+  const started = Date.now();
+  const run: JobRun = {
+    id: randomUUID(),
+    job: name,
+    trigger,
+    startedAt: new Date(started).toISOString(),
+    finishedAt: null,
+    durationMs: null,
+    status: 'running',
+    summary: null,
+    error: null,
+  };
+  saveJobRun(run);
+
+  let outcome: Pick<JobRun, 'status' | 'summary' | 'error'>;
+  try {
+    const { summary, error } = await job.run(trigger);
+    outcome = { status: error ? 'failed' : 'succeeded', summary, error };
+  } catch (error) {
+    console.error(`Error running job ${name}:`, error);
+    outcome = { status: 'failed', summary: null, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  const finished: JobRun = {
+    ...run,
+    ...outcome,
+    finishedAt: new Date().toISOString(),
+    durationMs: Date.now() - started,
+  };
+  saveJobRun(finished);
+  return finished;
+}
+
+export function getJobStatuses(): JobStatus[] {
+  const runs = getJobRuns();
+  const now = new Date();
+
+  return JOBS.map(job => {
+    const { schedule, error } = getSchedule(job);
+    const lastRun = runs.find(run => run.job === job.name) || null;
+    return {
+      name: job.name,
+      description: job.description,
+      schedule: schedule?.expression || null,
+      scheduleError: error,
+      nextRunAt: schedule ? nextCronRun(schedule, now)?.toISOString() || null : null,
+      running: lastRun?.status === 'running',
+      lastRun,
+    };
+  });
+}
+
+// setTimeout can't wait longer than about 24.8 days
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+let schedulerStarted = false;
+
+function scheduleNext(job: Job, schedule: CronSchedule): void {
+  const next = nextCronRun(schedule, new Date());
+  if (!next) {
+    console.warn(`Job ${job.name} (${schedule.expression}) never runs`);
+    return;
+  }
+
+  const timer = setTimeout(async () => {
+    if (Date.now() >= next.getTime()) {
+      try {
+        await runJob(job.name, 'scheduled');
+      } catch (error) {
+        // Most likely still running from the last time (or a manual run)
+        console.warn(`Skipped scheduled run of ${job.name}:`, (error as Error).message);
+      }
+    }
+    scheduleNext(job, schedule);
+  }, Math.min(next.getTime() - Date.now(), MAX_TIMEOUT_MS));
+
+  // Don't keep a script that imports this alive just for the timer
+  timer.unref();
+}
+
+// Start the timers for every job with a schedule. Runs left 'running' by a
+// server that stopped mid-job are marked as failed first.
+export function startScheduler(): void {
+  if (schedulerStarted) return;
+  schedulerStarted = true;
+
+  for (const run of getJobRuns().filter(r => r.status === 'running')) {
+    saveJobRun({
+      ...run,
+      status: 'failed',
+      finishedAt: new Date().toISOString(),
+      error: 'Interrupted by a server restart',
+    });
+  }
+
+  for (const job of JOBS) {
+    const { schedule, error } = getSchedule(job);
+    if (error) {
+      console.error(`Not scheduling job ${job.name}: ${error}`);
+    } else if (schedule) {
+      console.log(`Scheduled job ${job.name}: ${schedule.expression}`);
+      scheduleNext(job, schedule);
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import {
+  getTenants,
+  getTransactions,
+  getTenantTransactions,
+  addTenantTransaction,
+  isMatchRejected,
+  getMatchText,
+} from './data';
+
+// Assign every unassigned deposit that fits a tenant's criteria (skipping
+// matches the user has rejected, and deposits in another currency than the
+// tenant's rent). Returns how many were assigned.
+export function autoMatchTransactions(): number {
+  const tenants = getTenants();
+  const allTransactions = getTransactions();
+  const existingAssignments = getTenantTransactions();
+
+  // Get all deposit transactions (negative amounts = money in)
+  const deposits = allTransactions.filter(t => t.amount < 0);
+
+  // Get set of already-assigned transaction IDs
+  const assignedIds = new Set(existingAssignments.map(tt => tt.transactionId));
+
+  let matchedCount = 0;
+
+  for (const deposit of deposits) {
+    // Skip if already assigned
+    if (assignedIds.has(deposit.transactionId)) {
+      continue;
+    }
+
+    const description = getMatchText(deposit);
+
+    for (const tenant of tenants) {
+      // Skip if user previously rejected this match
+      if (isMatchRejected(tenant.id, deposit.transactionId)) {
+        continue;
+      }
+
+      // Amounts in different currencies can't be compared
+      if (deposit.isoCurrencyCode !== tenant.isoCurrencyCode) {
+        continue;
+      }
+
+      const depositAmount = Math.abs(deposit.amount);
+      let isMatch = false;
+
+      // Check based on match mode
+      if (tenant.matchMode === 'exactAmounts') {
+        // Exact amount matching - check if amount matches any specified amount
+        isMatch = tenant.exactAmounts.some(amount =>
+          Math.abs(depositAmount - amount) < 0.01 // Handle floating point comparison
+        );
+      } else {
+        // Search terms mode - check amount tolerance + search terms
+        const minAmount = tenant.expectedRent - tenant.tolerance;
+        const maxAmount = tenant.expectedRent + tenant.tolerance;
+
+        if (depositAmount >= minAmount && depositAmount <= maxAmount) {
+          // Check search terms (skip empty strings)
+          isMatch = tenant.searchTerms.some(term =>
+            term.trim() !== '' && description.includes(term.toUpperCase())
+          );
+        }
+      }
+
+      if (isMatch) {
+        // Auto-assign this transaction to the tenant
+        addTenantTransaction(tenant.id, deposit.transactionId, false);
+        assignedIds.add(deposit.transactionId); // Prevent double-matching
+        matchedCount++;
+        break; // One transaction can only match one tenant
+      }
+    }
+  }
+
+  return matchedCount;
+}
@@ -0,0 +1,172 @@
+import { toIsoDate, type SkippedRow } from './csv';
+import type { ParsedStatement, StatementBalance, StatementTransaction } from './statement';
+
+// Reading SWIFT MT940 customer statements. Each field starts a line with its
+// tag (:25: account, :60F: opening balance, :61: a booking, :86: the booking's
+// details, :62F: closing balance) and may run over several lines. A file can
+// hold several statements, optionally wrapped in {1:...}{4:...-} blocks.
+
+// Whether content is an MT940 statement rather than a CSV
+export function isMT940(content: string): boolean {
+  return /^:20:/m.test(content) && /^:(25|60[FM]):/m.test(content);
+}
+
+interface Field {
+  tag: string;
+  value: string;
+  row: number;
+}
+
+function readFields(content: string): Field[] {
+  const fields: Field[] = [];
+  content.split(/\r?\n/).forEach((line, i) => {
+    const match = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (match) {
+      fields.push({ tag: match[1], value: match[2], row: i + 1 });
+    } else if (fields.length > 0 && !/^-\}?$|^\{/.test(line.trim())) {
+      // A continuation line, up to the end of the block
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  });
+  return fields;
+}
+
+function parseMT940Amount(value: string): number {
+  return parseFloat(value.replace(',', '.'));
+}
+
+// YYMMDD
+function parseMT940Date(value: string): string | null {
+  const match = value.match(/^(\d{2})(\d{2})(\d{2})$/);
+  return match ? toIsoDate(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+}
+
+// :60F:, :62F: and :64: balances: C or D, YYMMDD, currency, amount
+function parseBalance(value: string): { date: string; currency: string; amount: number } | null {
+  const match = value.trim().match(/^([CD])(\d{6})([A-Z]{3})([\d,]+)$/);
+  const date = match && parseMT940Date(match[2]);
+  if (!match || !date) return null;
+  const amount = parseMT940Amount(match[4]);
+  return { date, currency: match[3], amount: match[1] === 'D' ? -amount : amount };
+}
+
+// The remittance text and counterparty name of an :86: field. German banks
+// split it into ?-numbered subfields (?20-?29 remittance, ?32-?33 name);
+// others use /NAME/ and /REMI/ codes; the rest is free text.
+function parseDetails(value: string): { description: string | null; counterparty: string | null } {
+  const joined = value.replace(/\r?\n/g, '');
+
+  if (/^\d{3}\?/.test(joined)) {
+    const subfields = new Map<string, string>();
+    for (const [, code, text] of joined.slice(3).matchAll(/\?(\d{2})([^?]*)/g)) {
+      subfields.set(code, (subfields.get(code) || '') + text);
+    }
+    const pick = (codes: string[]) => codes.map(code => subfields.get(code) || '').join('').trim() || null;
+    let remittance = pick(['20', '21', '22', '23', '24', '25', '26', '27', '28', '29', '60', '61', '62', '63']);
+    // SEPA bookings label their parts (EREF+, SVWZ+...); SVWZ+ is the remittance
+    const svwz = remittance?.match(/SVWZ\+(.*?)(?=[A-Z]{4}\+|$)/);
+    if (svwz) remittance = svwz[1].trim();
+    return { description: remittance || pick(['00']), counterparty: pick(['32', '33']) };
+  }
+
+  if (/\/(NAME|REMI)\//.test(joined)) {
+    const code = (name: string) => joined.match(new RegExp(`/${name}/(?:USTD//|STRD/CUR//)?([^/]*)`))?.[1].trim() || null;
+    return { description: code('REMI'), counterparty: code('NAME') };
+  }
+
+  return { description: value.replace(/\s*\r?\n\s*/g, ' ').trim() || null, counterparty: null };
+}
+
+// Read every booking. Throws if the file has statements for more than one
+// account; bookings that can't be read are skipped and listed.
+export function parseMT940(content: string): ParsedStatement {
+  const fields = readFields(content);
+
+  const accountNumbers = new Set(fields.filter(f => f.tag === '25').map(f => f.value.trim()).filter(Boolean));
+  if (accountNumbers.size === 0) {
+    throw new Error('Not an MT940 statement: no :25: account found');
+  }
+  if (accountNumbers.size > 1) {
+    throw new Error(`The file has statements for ${accountNumbers.size} accounts. Download each account on its own.`);
+  }
+
+  const transactions: StatementTransaction[] = [];
+  const skipped: SkippedRow[] = [];
+  const balances: StatementBalance[] = [];
+  let currency: string | null = null;
+
+  fields.forEach((field, i) => {
+    if (['60F', '60M', '62F', '62M', '64'].includes(field.tag)) {
+      const balance = parseBalance(field.value);
+      if (!balance) return;
+      currency = currency || balance.currency;
+      // Only the first opening and last closing of a statement matter; the M
+      // (intermediate) ones fall between pages
+      if (field.tag === '60F') balances.push({ type: 'opening', date: balance.date, amount: balance.amount });
+      if (field.tag === '62F') balances.push({ type: 'closing', date: balance.date, amount: balance.amount });
+      if (field.tag === '64') balances.push({ type: 'closingAvailable', date: balance.date, amount: balance.amount });
+      return;
+    }
+
+    if (field.tag !== '61') return;
+
+    // Value date YYMMDD, optional booking date MMDD, C/D (R for a reversal),
+    // optional funds code, amount, type code, customer reference (which may
+    // itself contain a /), //bank reference
+    const [line] = field.value.split(/\r?\n/);
+    const match = line.match(/^(\d{6})(\d{4})?(R?[CD])([A-Z])?([\d,]+)([NFS][A-Z0-9]{3})(.*?)(?:\/\/(.*))?$/);
+    if (!match) {
+      skipped.push({ row: field.row, reason: 'Could not read the booking line' });
+      return;
+    }
+    const [, valueDate, bookingDate, mark, , amountStr, , , bankRef] = match;
+
+    let date = parseMT940Date(valueDate);
+    if (date && bookingDate) {
+      // The booking date has no year: take the value date's, moved a year if
+      // they straddle New Year
+      let year = Number(date.slice(0, 4));
+      const month = Number(bookingDate.slice(0, 2));
+      const valueMonth = Number(date.slice(5, 7));
+      if (month - valueMonth > 6) year--;
+      if (valueMonth - month > 6) year++;
+      date = toIsoDate(year, month, Number(bookingDate.slice(2, 4)));
+    }
+    if (!date) {
+      skipped.push({ row: field.row, reason: `Could not read the date "${valueDate}"` });
+      return;
+    }
+
+    const amount = parseMT940Amount(amountStr);
+    if (isNaN(amount)) {
+      skipped.push({ row: field.row, reason: 'Could not read the amount' });
+      return;
+    }
+
+    // C is money in, D money out; RC and RD reverse them
+    const moneyIn = mark === 'C' || mark === 'RD';
+    const details = fields[i + 1]?.tag === '86' ? parseDetails(fields[i + 1].value) : { description: null, counterparty: null };
+    // Only the bank reference is unique; customer references repeat (a standing
+    // order says "MIETE" every month), so bookings without one are hashed
+    const reference = bankRef?.trim() || null;
+
+    transactions.push({
+      row: field.row,
+      reference,
+      date,
+      description: details.description || details.counterparty || 'Unknown',
+      counterparty: details.counterparty,
+      amount: moneyIn ? -amount : amount,
+    });
+  });
+
+  return {
+    format: 'mt940',
+    institution: content.match(/\{1:F01([A-Z0-9]{8})/)?.[1] || null, // the bank's BIC, from the header block
+    accountNumber: [...accountNumbers][0],
+    currency,
+    transactions,
+    skipped,
+    balances,
+  };
+}
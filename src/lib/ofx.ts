@@ -0,0 +1,141 @@
+import { toIsoDate, type SkippedRow } from './csv';
+
+// Reading OFX and QFX (Quicken) statement downloads. OFX 1.x is SGML, where
+// elements holding a value have no closing tag (<TRNAMT>-50.00); 2.x is XML.
+// Both close aggregates like <STMTTRN>, so records are found by those and
+// values read up to the next tag or line break.
+
+export interface OFXTransaction {
+  row: number;             // line in the file the <STMTTRN> starts on
+  fitId: string;           // the bank's ID for the transaction, stable across downloads
+  date: string;            // YYYY-MM-DD
+  description: string;
+  amount: number;          // Plaid's convention: positive = money out
+  type: string;            // TRNTYPE, e.g. CREDIT, DEBIT, DIRECTDEP
+}
+
+export interface ParsedOFX {
+  institution: string | null; // <FI><ORG>, when the bank includes it
+  accountNumber: string | null;
+  currency: string | null;    // CURDEF
+  transactions: OFXTransaction[];
+  skipped: SkippedRow[];
+}
+
+// Whether content is an OFX or QFX file rather than a CSV
+export function isOFX(content: string): boolean {
+  return /<OFX>/i.test(content);
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&apos;/gi, '\'')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&amp;/gi, '&');
+}
+
+// The first value of a tag within an OFX fragment, or null
+function readValue(fragment: string, tag: string): string | null {
+  const match = fragment.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match ? decodeEntities(match[1]).trim() : '';
+  return value || null;
+}
+
+// Every <tag>...</tag> aggregate in content, with where it starts
+function readAggregates(content: string, tag: string): { body: string; index: number }[] {
+  const pattern = new RegExp(`<${tag}>([\\s\\S]*?)<\\/${tag}>`, 'gi');
+  return [...content.matchAll(pattern)].map(match => ({ body: match[1], index: match.index }));
+}
+
+// OFX dates are YYYYMMDD, optionally followed by a time and time zone
+function parseOFXDate(value: string | null): string | null {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? toIsoDate(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+}
+
+// TRNAMT forms, as for QIF: a comma followed by one or two digits at the end
+// is the decimal separator (1.234,56 or -50,00); otherwise commas separate
+// thousands (1,234.56 or 1,500)
+const DECIMAL_COMMA_AMOUNT = /^[+-]?(\d{1,3}(\.\d{3})+|\d+),\d{1,2}$/;
+const DECIMAL_POINT_AMOUNT = /^[+-]?((\d{1,3}(,\d{3})+|\d+)(\.\d*)?|\.\d+)$/;
+
+// NaN for anything in neither form
+function parseOFXAmount(value: string | null): number {
+  if (!value) return NaN;
+  if (DECIMAL_COMMA_AMOUNT.test(value)) return parseFloat(value.replace(/\./g, '').replace(',', '.'));
+  if (DECIMAL_POINT_AMOUNT.test(value)) return parseFloat(value.replace(/,/g, ''));
+  return NaN;
+}
+
+// Read a statement's transactions. Throws if the file isn't OFX or holds more
+// than one account; records that can't be read are skipped and listed.
+export function parseOFX(content: string): ParsedOFX {
+  if (!isOFX(content)) {
+    throw new Error('Not an OFX file: no <OFX> element found');
+  }
+
+  const accountNumbers = new Set(
+    [...readAggregates(content, 'BANKACCTFROM'), ...readAggregates(content, 'CCACCTFROM')]
+      .map(aggregate => readValue(aggregate.body, 'ACCTID'))
+      .filter((id): id is string => !!id)
+  );
+  if (accountNumbers.size > 1) {
+    throw new Error(`The file has statements for ${accountNumbers.size} accounts. Download each account on its own.`);
+  }
+
+  const fi = readAggregates(content, 'FI')[0];
+  const lineOf = (index: number) => content.slice(0, index).split('\n').length;
+
+  const transactions: OFXTransaction[] = [];
+  const skipped: SkippedRow[] = [];
+
+  for (const { body, index } of readAggregates(content, 'STMTTRN')) {
+    const row = lineOf(index);
+
+    const fitId = readValue(body, 'FITID');
+    if (!fitId) {
+      skipped.push({ row, reason: 'No transaction ID (FITID)' });
+      continue;
+    }
+
+    const dateStr = readValue(body, 'DTPOSTED');
+    const date = parseOFXDate(dateStr);
+    if (!date) {
+      skipped.push({ row, reason: dateStr ? `Could not read the date "${dateStr}"` : 'No date' });
+      continue;
+    }
+
+    // OFX amounts are positive for money in
+    const amount = -parseOFXAmount(readValue(body, 'TRNAMT'));
+    if (isNaN(amount)) {
+      skipped.push({ row, reason: 'Could not read the amount' });
+      continue;
+    }
+
+    // NAME is the payee; the memo often carries the rest (e.g. who sent a transfer)
+    const name = readValue(body, 'NAME');
+    const memo = readValue(body, 'MEMO');
+    const description = [name, memo && memo !== name ? memo : null].filter(Boolean).join(' ') || 'Unknown';
+
+    transactions.push({
+      row,
+      fitId,
+      date,
+      description,
+      amount,
+      type: readValue(body, 'TRNTYPE') || '',
+    });
+  }
+
+  return {
+    institution: fi ? readValue(fi.body, 'ORG') : null,
+    accountNumber: [...accountNumbers][0] || null,
+    currency: readValue(content, 'CURDEF')?.toUpperCase() || null,
+    transactions,
+    skipped,
+  };
+}
@@ -1,7 +1,20 @@
-import { Configuration, PlaidApi, PlaidEnvironments } from 'plaid';
+import { createHash, createPublicKey, timingSafeEqual, verify } from 'crypto';
+import {
+  Configuration,
+  CountryCode,
+  PlaidApi,
+  PlaidEnvironments,
+  Products,
+  type JWKPublicKey,
+} from 'plaid';
+import { decryptSecret, encryptSecret } from './secrets';
+import { DEFAULT_CURRENCY } from './currency';
+import type { Account, LinkedAccount } from './data';
 
+// PLAID_BASE_PATH points the client somewhere else, e.g. the mock server in scripts/mock-plaid
 const configuration = new Configuration({
-  basePath: PlaidEnvironments[process.env.PLAID_ENV === 'production' ? 'production' : 'sandbox'],
+  basePath: process.env.PLAID_BASE_PATH
+    || PlaidEnvironments[process.env.PLAID_ENV === 'production' ? 'production' : 'sandbox'],
   baseOptions: {
     headers: {
       'PLAID-CLIENT-ID': process.env.PLAID_CLIENT_ID,
@@ -11,3 +24,190 @@ const configuration = new Configuration({
 });
 
 export const plaidClient = new PlaidApi(configuration);
+
+// Access tokens are stored encrypted (see secrets.ts). Calls that need one take
+// the Account and decrypt its token here, so the plaintext never leaves this module.
+type ItemAccount = Pick<Account, 'accessToken'>;
+
+// Exchange a Link public token; the returned access token is already encrypted
+export async function exchangePublicToken(publicToken: string) {
+  const response = await plaidClient.itemPublicTokenExchange({ public_token: publicToken });
+  return {
+    itemId: response.data.item_id,
+    accessToken: encryptSecret(response.data.access_token),
+  };
+}
+
+// Days of history Plaid fetches when an item is first linked (1-730; Plaid's
+// own default is 90). It's fixed at link time, so changing it only affects
+// banks connected afterwards.
+const DAYS_REQUESTED = Math.min(Math.max(Math.floor(Number(process.env.PLAID_DAYS_REQUESTED) || 730), 1), 730);
+
+// Comma-separated setting, e.g. PLAID_COUNTRY_CODES="US,CA". Values not in
+// `allowed` are dropped with a warning; `fallback` is used if none are left.
+function parseListSetting<T extends string>(name: string, allowed: readonly T[], fallback: T[]): T[] {
+  const values = (process.env[name] || '').split(',').map(value => value.trim()).filter(Boolean);
+  const valid = values.filter((value): value is T => (allowed as readonly string[]).includes(value));
+  const invalid = values.filter(value => !valid.includes(value as T));
+  if (invalid.length > 0) {
+    console.warn(`Ignoring unsupported ${name}: ${invalid.join(', ')}`);
+  }
+  return valid.length > 0 ? valid : fallback;
+}
+
+// Countries whose banks Link offers
+const COUNTRY_CODES = parseListSetting('PLAID_COUNTRY_CODES', Object.values(CountryCode), [CountryCode.Us]);
+
+// Languages Link can be shown in; Plaid supports these
+const LINK_LANGUAGES = ['da', 'de', 'en', 'es', 'et', 'fr', 'it', 'lt', 'lv', 'nl', 'no', 'pl', 'pt', 'ro', 'sv'] as const;
+
+// Of those, the ones to offer, the first being the default
+const LANGUAGES = parseListSetting('PLAID_LANGUAGES', LINK_LANGUAGES, ['en']);
+
+// The first of the browser's preferred languages (e.g. navigator.languages)
+// that Link is offered in, matched on the language part ("fr-CA" is "fr")
+function pickLanguage(preferred: string[] = []): string {
+  for (const tag of preferred) {
+    const language = tag.toLowerCase().split('-')[0];
+    if ((LANGUAGES as string[]).includes(language)) {
+      return language;
+    }
+  }
+  return LANGUAGES[0];
+}
+
+// Pass an account to open Link in update mode (re-authenticating that
+// connection), and the browser's languages to show Link in one of them
+export function createLinkToken(account?: ItemAccount, languages?: string[]) {
+  return plaidClient.linkTokenCreate({
+    user: { client_user_id: 'user-' + Date.now() },
+    client_name: 'Rent Payment Tracker',
+    // Update mode reuses the item's products (and history window), and Plaid
+    // rejects them being passed again
+    ...(account
+      ? { access_token: decryptSecret(account.accessToken) }
+      : { products: [Products.Transactions], transactions: { days_requested: DAYS_REQUESTED } }),
+    country_codes: COUNTRY_CODES,
+    language: pickLanguage(languages),
+    // Plaid posts transaction updates and item errors here (see /api/plaid/webhook)
+    webhook: process.env.PLAID_WEBHOOK_URL || undefined,
+  });
+}
+
+export function getItemAccounts(account: ItemAccount) {
+  return plaidClient.accountsGet({ access_token: decryptSecret(account.accessToken) });
+}
+
+export async function getLinkedAccounts(account: ItemAccount): Promise<LinkedAccount[]> {
+  const response = await getItemAccounts(account);
+  return response.data.accounts.map(acc => ({
+    accountId: acc.account_id,
+    name: acc.name,
+    officialName: acc.official_name || null,
+    type: acc.type,
+    subtype: acc.subtype || null,
+    mask: acc.mask || null,
+    balance: {
+      current: acc.balances.current,
+      available: acc.balances.available,
+    },
+    excluded: false,
+    isoCurrencyCode: acc.balances.iso_currency_code || acc.balances.unofficial_currency_code || DEFAULT_CURRENCY,
+  }));
+}
+
+// Revoke the item's access token; Plaid stops billing for it
+export function removeItem(account: ItemAccount) {
+  return plaidClient.itemRemove({ access_token: decryptSecret(account.accessToken) });
+}
+
+// The Plaid error code (e.g. ITEM_LOGIN_REQUIRED) from a failed API call, if any
+export function getPlaidErrorCode(error: unknown): string | null {
+  const data = (error as { response?: { data?: { error_code?: unknown } } })?.response?.data;
+  return typeof data?.error_code === 'string' ? data.error_code : null;
+}
+
+// Plaid's explanation of a failed API call, or the error's own message
+export function getPlaidErrorMessage(error: unknown): string {
+  const data = (error as { response?: { data?: { error_message?: unknown } } })?.response?.data;
+  if (typeof data?.error_message === 'string') return data.error_message;
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Rate limits and errors on Plaid's side (an outage, a timeout) usually clear
+// up on their own, so the call is worth retrying after a pause
+export function isTransientPlaidError(error: unknown): boolean {
+  const response = (error as { response?: { status?: number; data?: { error_type?: unknown } } })?.response;
+  if (!response) return false;
+  const errorType = response.data?.error_type;
+  return errorType === 'RATE_LIMIT_EXCEEDED' || errorType === 'API_ERROR' ||
+    response.status === 429 || (response.status ?? 0) >= 500;
+}
+
+export function syncItemTransactions(account: ItemAccount, cursor?: string) {
+  return plaidClient.transactionsSync({
+    access_token: decryptSecret(account.accessToken),
+    cursor,
+    options: { include_original_description: true },
+  });
+}
+
+// Webhooks carry a JWT in the Plaid-Verification header, signed (ES256) with a
+// key we fetch from Plaid by its key ID. The JWT holds a hash of the body and
+// an issue time; anything older than five minutes is treated as a replay.
+const WEBHOOK_MAX_AGE_SECONDS = 5 * 60;
+const verificationKeys = new Map<string, JWKPublicKey>();
+
+function decodeJwtPart(part: string) {
+  return JSON.parse(Buffer.from(part, 'base64url').toString('utf-8'));
+}
+
+async function getVerificationKey(keyId: string): Promise<JWKPublicKey> {
+  let key = verificationKeys.get(keyId);
+  if (!key) {
+    const response = await plaidClient.webhookVerificationKeyGet({ key_id: keyId });
+    key = response.data.key;
+    verificationKeys.set(keyId, key);
+  }
+  return key;
+}
+
+export async function verifyWebhook(body: string, token: string | null): Promise<boolean> {
+  const [headerPart, payloadPart, signaturePart] = token?.split('.') || [];
+  if (!headerPart || !payloadPart || !signaturePart) {
+    return false;
+  }
+
+  let header, payload;
+  try {
+    header = decodeJwtPart(headerPart);
+    payload = decodeJwtPart(payloadPart);
+  } catch {
+    return false;
+  }
+  if (header.alg !== 'ES256' || typeof header.kid !== 'string') {
+    return false;
+  }
+
+  const key = await getVerificationKey(header.kid);
+  if (key.expired_at) {
+    return false;
+  }
+
+  const signatureValid = verify(
+    'sha256',
+    Buffer.from(`${headerPart}.${payloadPart}`),
+    {
+      key: createPublicKey({ key: { kty: key.kty, crv: key.crv, x: key.x, y: key.y }, format: 'jwk' }),
+      dsaEncoding: 'ieee-p1363',
+    },
+    Buffer.from(signaturePart, 'base64url')
+  );
+  if (!signatureValid || Date.now() / 1000 - payload.iat > WEBHOOK_MAX_AGE_SECONDS) {
+    return false;
+  }
+
+  const expectedHash = Buffer.from(createHash('sha256').update(body).digest('hex'));
+  const claimedHash = Buffer.from(String(payload.request_body_sha256));
+  return claimedHash.length === expectedHash.length && timingSafeEqual(claimedHash, expectedHash);
+}
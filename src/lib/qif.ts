@@ -0,0 +1,157 @@
+import { toIsoDate, type SkippedRow } from './csv';
+
+// Reading QIF (Quicken Interchange Format) exports. A file starts with a
+// !Type header and holds one record per transaction, a line per field
+// (D date, T amount, P payee, M memo, N check number...) ending with ^.
+
+export interface QIFTransaction {
+  row: number;             // line in the file the record starts on
+  date: string;            // YYYY-MM-DD
+  description: string;
+  amount: number;          // Plaid's convention: positive = money out
+  number: string;          // N: check or reference number, often empty
+}
+
+export interface ParsedQIF {
+  accountType: string;     // from the header, e.g. Bank or CCard
+  dayFirst: boolean;       // whether dates were read as DD/MM
+  transactions: QIFTransaction[];
+  skipped: SkippedRow[];
+}
+
+// Register types that hold transactions; the rest (Invst, Cat, Class,
+// Memorized...) are investment accounts or lists
+const REGISTER_TYPES = ['bank', 'cash', 'ccard', 'oth a', 'oth l'];
+
+// Whether content is a QIF file rather than a CSV
+export function isQIF(content: string): boolean {
+  return /^\s*!(Type|Account|Option)/i.test(content);
+}
+
+// A two-digit year as four. Quicken marks years from 2000 with an apostrophe
+// (1/ 5'26, while 1/5/98 is 1998); other exporters don't, so their years count
+// as this century up to ten years ahead and the last one otherwise.
+function toFullYear(digits: string, separator: string): number {
+  const year = Number(digits);
+  if (digits.length > 2) return year;
+  if (separator === '\'') return 2000 + year;
+  return year <= new Date().getFullYear() % 100 + 10 ? 2000 + year : 1900 + year;
+}
+
+// Date parts in file order, the year in full. Besides Quicken's own forms,
+// exporters use 01/05/2026, 05.01.2026 or 2026-01-05.
+function splitQIFDate(value: string): number[] | null {
+  const match = value.replace(/\s/g, '').match(/^(\d{1,4})([/.\-'])(\d{1,2})([/.\-'])(\d{1,4})$/);
+  if (!match) return null;
+  const [, first, firstSeparator, second, lastSeparator, last] = match;
+  // The year comes first only when that part can't be a day (98-01-05)
+  return Number(first) > 31
+    ? [toFullYear(first, firstSeparator), Number(second), Number(last)]
+    : [Number(first), Number(second), toFullYear(last, lastSeparator)];
+}
+
+function parseQIFAmount(value: string): number {
+  const cleaned = value.replace(/[\p{Sc}\s]/gu, '');
+  // 1.234,56 uses a decimal comma; 1,234.56 a thousands comma
+  const decimalComma = /,\d{1,2}$/.test(cleaned) && !/\.\d{1,2}$/.test(cleaned);
+  return parseFloat(decimalComma ? cleaned.replace(/\./g, '').replace(',', '.') : cleaned.replace(/,/g, ''));
+}
+
+// Read a bank register's transactions. Throws if the file isn't a QIF bank
+// register or holds more than one account; records that can't be read are
+// skipped and listed.
+export function parseQIF(content: string): ParsedQIF {
+  const lines = content.split(/\r?\n/);
+
+  const types = lines
+    .map(line => line.trim().match(/^!Type:(.*)$/i)?.[1].trim())
+    .filter((type): type is string => !!type);
+  if (types.length === 0) {
+    throw new Error('Not a QIF file: no !Type header found');
+  }
+  const register = types.find(type => REGISTER_TYPES.includes(type.toLowerCase()));
+  if (!register) {
+    throw new Error(`QIF type "${types[0]}" has no bank transactions. Export a bank or credit card register.`);
+  }
+  if (types.filter(type => REGISTER_TYPES.includes(type.toLowerCase())).length > 1) {
+    throw new Error('The file has registers for more than one account. Export each account on its own.');
+  }
+
+  // Collect the fields of each record in the register
+  const records: { row: number; fields: Map<string, string> }[] = [];
+  let inRegister = false;
+  let current: { row: number; fields: Map<string, string> } | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+
+    if (line.startsWith('!')) {
+      inRegister = /^!Type:/i.test(line) && line.slice(6).trim().toLowerCase() === register.toLowerCase();
+      current = null;
+      continue;
+    }
+    if (!inRegister) continue;
+
+    if (line === '^') {
+      if (current) records.push(current);
+      current = null;
+      continue;
+    }
+
+    current = current || { row: i + 1, fields: new Map() };
+    const code = line[0].toUpperCase();
+    // Splits (S, E, $) repeat per split; the first of any field is the record's own
+    if (!current.fields.has(code)) {
+      current.fields.set(code, line.slice(1).trim());
+    }
+  }
+  // A last record without its closing ^
+  if (current) records.push(current);
+
+  // QIF doesn't say which order day and month are in: any first part over 12
+  // means day first, any second part over 12 month first. Dotted dates are
+  // day first unless they say otherwise.
+  const dateParts = records
+    .map(record => ({ raw: record.fields.get('D') || '', parts: splitQIFDate(record.fields.get('D') || '') }))
+    .filter(date => date.parts && date.parts[0] <= 31);
+  const dayFirst = dateParts.some(date => date.parts![0] > 12)
+    || (!dateParts.some(date => date.parts![1] > 12) && dateParts.some(date => date.raw.includes('.')));
+
+  const transactions: QIFTransaction[] = [];
+  const skipped: SkippedRow[] = [];
+
+  for (const { row, fields } of records) {
+    const dateStr = fields.get('D');
+    if (!dateStr) {
+      skipped.push({ row, reason: 'No date' });
+      continue;
+    }
+
+    const parts = splitQIFDate(dateStr);
+    let date: string | null = null;
+    if (parts) {
+      const [a, b, c] = parts;
+      date = a > 31 ? toIsoDate(a, b, c) : dayFirst ? toIsoDate(c, b, a) : toIsoDate(c, a, b);
+    }
+    if (!date) {
+      skipped.push({ row, reason: `Could not read the date "${dateStr}"` });
+      continue;
+    }
+
+    // QIF amounts are positive for money in; U is the same amount in newer files
+    const amount = -parseQIFAmount(fields.get('T') || fields.get('U') || '');
+    if (isNaN(amount)) {
+      skipped.push({ row, reason: 'Could not read the amount' });
+      continue;
+    }
+
+    const payee = fields.get('P');
+    const memo = fields.get('M');
+    const description = [payee, memo && memo !== payee ? memo : null].filter(Boolean).join(' ') || 'Unknown';
+
+    transactions.push({ row, date, description, amount, number: fields.get('N') || '' });
+  }
+
+  return { accountType: register, dayFirst, transactions, skipped };
+}
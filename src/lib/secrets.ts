@@ -0,0 +1,104 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+// Envelope encryption for secrets stored in data/ (Plaid access tokens).
+// Each secret gets its own random data key; the data key is encrypted with the
+// master key from TOKEN_ENCRYPTION_KEY and stored next to the ciphertext:
+//
+//   enc:v1:<master key id>:<wrapped data key>:<encrypted secret>
+//
+// To rotate, move the old key to TOKEN_ENCRYPTION_OLD_KEYS (comma-separated),
+// set a new TOKEN_ENCRYPTION_KEY and run `npm run tokens:rotate`.
+
+const PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+function parseKey(value: string, name: string): MasterKey {
+  const key = Buffer.from(value.trim(), 'base64');
+  if (key.length !== 32) {
+    throw new Error(`${name} must be a base64-encoded 32-byte key (generate one with: openssl rand -base64 32)`);
+  }
+  return { id: createHash('sha256').update(key).digest('hex').slice(0, 8), key };
+}
+
+function getCurrentKey(): MasterKey {
+  const value = process.env.TOKEN_ENCRYPTION_KEY;
+  if (!value) {
+    throw new Error(
+      'TOKEN_ENCRYPTION_KEY is not set. Plaid access tokens are encrypted at rest; ' +
+      'add a key to .env.local (generate one with: openssl rand -base64 32)'
+    );
+  }
+  return parseKey(value, 'TOKEN_ENCRYPTION_KEY');
+}
+
+function getKeyById(id: string): MasterKey {
+  const oldKeys = (process.env.TOKEN_ENCRYPTION_OLD_KEYS || '')
+    .split(',')
+    .filter(value => value.trim() !== '')
+    .map(value => parseKey(value, 'TOKEN_ENCRYPTION_OLD_KEYS'));
+
+  const key = [getCurrentKey(), ...oldKeys].find(k => k.id === id);
+  if (!key) {
+    throw new Error(`No encryption key with id ${id}. Add it to TOKEN_ENCRYPTION_OLD_KEYS to decrypt.`);
+  }
+  return key;
+}
+
+// Returns iv | ciphertext | auth tag
+function seal(key: Buffer, plaintext: Buffer): Buffer {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, ciphertext, cipher.getAuthTag()]);
+}
+
+function open(key: Buffer, sealed: Buffer): Buffer {
+  const iv = sealed.subarray(0, IV_LENGTH);
+  const tag = sealed.subarray(sealed.length - TAG_LENGTH);
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(sealed.subarray(IV_LENGTH, sealed.length - TAG_LENGTH)), decipher.final()]);
+}
+
+// Whether secrets can be encrypted (the key's format is checked when it's used)
+export function hasEncryptionKey(): boolean {
+  return !!process.env.TOKEN_ENCRYPTION_KEY;
+}
+
+export function isEncryptedSecret(value: string): boolean {
+  return value.startsWith(PREFIX);
+}
+
+export function encryptSecret(plaintext: string): string {
+  const masterKey = getCurrentKey();
+  const dataKey = randomBytes(32);
+
+  const wrappedKey = seal(masterKey.key, dataKey).toString('base64');
+  const ciphertext = seal(dataKey, Buffer.from(plaintext, 'utf-8')).toString('base64');
+
+  return `${PREFIX}${masterKey.id}:${wrappedKey}:${ciphertext}`;
+}
+
+export function decryptSecret(envelope: string): string {
+  if (!isEncryptedSecret(envelope)) {
+    throw new Error('Secret is not encrypted. Run `npm run tokens:rotate` to encrypt stored tokens.');
+  }
+
+  const [keyId, wrappedKey, ciphertext] = envelope.slice(PREFIX.length).split(':');
+  const masterKey = getKeyById(keyId);
+
+  const dataKey = open(masterKey.key, Buffer.from(wrappedKey, 'base64'));
+  return open(dataKey, Buffer.from(ciphertext, 'base64')).toString('utf-8');
+}
+
+// Re-encrypt under the current master key (plaintext values are encrypted as-is)
+export function reencryptSecret(value: string): string {
+  return encryptSecret(isEncryptedSecret(value) ? decryptSecret(value) : value);
+}
@@ -0,0 +1,59 @@
+import type { DailyBalance, LinkedAccountBalance } from './data';
+import type { SkippedRow } from './csv';
+
+// What the bank statement formats (camt.053 and MT940) are read into. Unlike
+// CSV and QIF they carry the bank's own entry references and the statement's
+// balances.
+
+export interface StatementTransaction {
+  row: number;             // line in the file the entry starts on
+  reference: string | null; // the bank's unique reference for the entry, when it gives one
+  date: string;            // YYYY-MM-DD booking date
+  description: string;     // remittance information
+  counterparty: string | null; // who paid (or was paid)
+  amount: number;          // Plaid's convention: positive = money out
+}
+
+export interface StatementBalance {
+  type: 'opening' | 'closing' | 'closingAvailable';
+  date: string;            // YYYY-MM-DD
+  amount: number;          // negative when overdrawn
+}
+
+export interface ParsedStatement {
+  format: 'camt' | 'mt940';
+  institution: string | null; // the bank's name or BIC
+  accountNumber: string | null; // IBAN or the bank's account number
+  currency: string | null;
+  transactions: StatementTransaction[];
+  skipped: SkippedRow[];
+  balances: StatementBalance[];
+}
+
+// A statement's balances as balance history entries, one per day. Closing
+// balances win over an opening one on the same day.
+export function toDailyBalances(balances: StatementBalance[], accountId: string, itemId: string): DailyBalance[] {
+  const byDate = new Map<string, DailyBalance>();
+  const ordered = [...balances].sort((a, b) => (a.type === 'opening' ? 0 : 1) - (b.type === 'opening' ? 0 : 1));
+  for (const balance of ordered) {
+    const entry = byDate.get(balance.date) || { accountId, itemId, date: balance.date, current: null, available: null };
+    if (balance.type === 'closingAvailable') {
+      entry.available = balance.amount;
+    } else {
+      entry.current = balance.amount;
+    }
+    byDate.set(balance.date, entry);
+  }
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// The balance as of the latest closing in the statement, or null if it has none
+export function getClosingBalance(balances: StatementBalance[]): (LinkedAccountBalance & { date: string }) | null {
+  const closing = balances
+    .filter(b => b.type === 'closing')
+    .sort((a, b) => b.date.localeCompare(a.date))[0];
+  if (!closing) return null;
+
+  const available = balances.find(b => b.type === 'closingAvailable' && b.date === closing.date);
+  return { date: closing.date, current: closing.amount, available: available?.amount ?? null };
+}
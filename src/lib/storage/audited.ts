@@ -0,0 +1,237 @@
+import { randomUUID } from 'crypto';
+import type { Account, ItemRemoval } from '../data';
+import type { AuditChange, AuditContext, AuditEntityType, StorageAdapter } from './types';
+
+type Track = (entityType: AuditEntityType, entityId: string, before: unknown, after: unknown) => void;
+
+// Account and item removal records carry the (encrypted) Plaid access token;
+// keep it out of the log
+function redact(entityType: AuditEntityType, record: unknown): unknown {
+  if ((entityType === 'account' || entityType === 'itemRemoval') && record && (record as Account | ItemRemoval).accessToken) {
+    return { ...(record as Account | ItemRemoval), accessToken: '[redacted]' };
+  }
+  return record ?? null;
+}
+
+// Wraps an adapter so every write also appends audit entries with the record
+// before and after the change. The write and its entries share a transaction,
+// so a rolled-back change leaves nothing in the log. Writes that don't change
+// anything (e.g. re-adding an existing link) aren't recorded.
+// `onChanges` sees the unredacted changes, e.g. to keep them for undo.
+export function createAuditedStorage(
+  storage: StorageAdapter,
+  getContext: () => AuditContext,
+  onChanges?: (changes: AuditChange[]) => void
+): StorageAdapter {
+  function mutate<T>(fn: (track: Track) => T): T {
+    return storage.transaction(() => {
+      const changes: AuditChange[] = [];
+
+      const result = fn((entityType, entityId, before, after) => {
+        before = before ?? null;
+        after = after ?? null;
+        if (JSON.stringify(before) === JSON.stringify(after)) return;
+
+        const action = before === null ? 'create' : after === null ? 'delete' : 'update';
+        changes.push({ entityType, entityId, action, before, after });
+      });
+
+      if (changes.length > 0) {
+        const { source, route, operation } = getContext();
+        const timestamp = new Date().toISOString();
+        storage.appendAuditEntries(changes.map(change => ({
+          id: randomUUID(),
+          timestamp,
+          source,
+          route,
+          operation,
+          ...change,
+          before: redact(change.entityType, change.before),
+          after: redact(change.entityType, change.after),
+        })));
+        onChanges?.(changes);
+      }
+      return result;
+    });
+  }
+
+  return {
+    ...storage,
+
+    // Accounts
+    saveAccount: account => mutate(track => {
+      const before = storage.getAccounts().find(a => a.id === account.id);
+      storage.saveAccount(account);
+      track('account', account.id, before, account);
+    }),
+    deleteAccount: id => mutate(track => {
+      const before = storage.getAccounts().find(a => a.id === id);
+      storage.deleteAccount(id);
+      track('account', id, before, null);
+    }),
+
+    // Tenants
+    saveTenant: tenant => mutate(track => {
+      const before = storage.getTenants().find(t => t.id === tenant.id);
+      storage.saveTenant(tenant);
+      track('tenant', tenant.id, before, tenant);
+    }),
+    deleteTenant: id => mutate(track => {
+      const before = storage.getTenants().find(t => t.id === id);
+      storage.deleteTenant(id);
+      track('tenant', id, before, null);
+    }),
+
+    // Rent Payments
+    saveRentPayment: payment => mutate(track => {
+      const before = storage.getRentPaymentsForMonth(payment.month)
+        .find(p => p.tenantId === payment.tenantId);
+      storage.saveRentPayment(payment);
+      track('rentPayment', `${payment.tenantId}:${payment.month}`, before, payment);
+    }),
+
+    // Transactions
+    saveTransactions: transactions => mutate(track => {
+      const seen = new Set(storage.getTransactions().map(t => t.transactionId));
+      storage.saveTransactions(transactions);
+      for (const transaction of transactions) {
+        if (seen.has(transaction.transactionId)) continue;
+        seen.add(transaction.transactionId);
+        track('transaction', transaction.transactionId, null, transaction);
+      }
+    }),
+    updateTransactions: transactions => mutate(track => {
+      const existing = new Map(storage.getTransactions().map(t => [t.transactionId, t]));
+      storage.updateTransactions(transactions);
+      for (const transaction of transactions) {
+        const before = existing.get(transaction.transactionId);
+        if (before) {
+          track('transaction', transaction.transactionId, before, transaction);
+        }
+      }
+    }),
+    removeTransactions: transactionIds => mutate(track => {
+      const ids = new Set(transactionIds);
+      const removed = storage.getTransactions().filter(t => ids.has(t.transactionId));
+      storage.removeTransactions(transactionIds);
+      removed.forEach(t => track('transaction', t.transactionId, t, null));
+    }),
+
+    // Sync Cursors
+    saveSyncCursor: cursor => mutate(track => {
+      const before = storage.getSyncCursor(cursor.itemId);
+      storage.saveSyncCursor(cursor);
+      track('syncCursor', cursor.itemId, before, cursor);
+    }),
+    deleteSyncCursor: itemId => mutate(track => {
+      const before = storage.getSyncCursor(itemId);
+      storage.deleteSyncCursor(itemId);
+      track('syncCursor', itemId, before, null);
+    }),
+
+    // Tenant Transactions
+    addTenantTransaction: link => mutate(track => {
+      const before = storage.getTenantTransactionByTransactionId(link.transactionId);
+      storage.addTenantTransaction(link);
+      if (!before) {
+        track('tenantTransaction', link.transactionId, null, link);
+      }
+    }),
+    removeTenantTransactions: transactionIds => mutate(track => {
+      const ids = new Set(transactionIds);
+      const removed = storage.getTenantTransactions().filter(tt => ids.has(tt.transactionId));
+      storage.removeTenantTransactions(transactionIds);
+      removed.forEach(tt => track('tenantTransaction', tt.transactionId, tt, null));
+    }),
+    removeTenantTransactionsForTenant: tenantId => mutate(track => {
+      const removed = storage.getTenantTransactionsForTenant(tenantId);
+      storage.removeTenantTransactionsForTenant(tenantId);
+      removed.forEach(tt => track('tenantTransaction', tt.transactionId, tt, null));
+    }),
+
+    // Rejected Matches
+    addRejectedMatch: match => mutate(track => {
+      const alreadyRejected = storage.isMatchRejected(match.tenantId, match.transactionId);
+      storage.addRejectedMatch(match);
+      if (!alreadyRejected) {
+        track('rejectedMatch', `${match.tenantId}:${match.transactionId}`, null, match);
+      }
+    }),
+    removeRejectedMatch: (tenantId, transactionId) => mutate(track => {
+      const wasRejected = storage.isMatchRejected(tenantId, transactionId);
+      storage.removeRejectedMatch(tenantId, transactionId);
+      if (wasRejected) {
+        track('rejectedMatch', `${tenantId}:${transactionId}`, { tenantId, transactionId }, null);
+      }
+    }),
+    removeRejectedMatchesForTenant: tenantId => mutate(track => {
+      const removed = storage.getRejectedMatches().filter(rm => rm.tenantId === tenantId);
+      storage.removeRejectedMatchesForTenant(tenantId);
+      removed.forEach(rm => track('rejectedMatch', `${rm.tenantId}:${rm.transactionId}`, rm, null));
+    }),
+    removeRejectedMatchesForTransactions: transactionIds => mutate(track => {
+      const ids = new Set(transactionIds);
+      const removed = storage.getRejectedMatches().filter(rm => ids.has(rm.transactionId));
+      storage.removeRejectedMatchesForTransactions(transactionIds);
+      removed.forEach(rm => track('rejectedMatch', `${rm.tenantId}:${rm.transactionId}`, rm, null));
+    }),
+
+    // CSV Uploads
+    saveCsvUpload: upload => mutate(track => {
+      const before = storage.getCsvUploads().find(u => u.id === upload.id);
+      storage.saveCsvUpload(upload);
+      track('csvUpload', upload.id, before, upload);
+    }),
+    deleteCsvUpload: uploadId => mutate(track => {
+      const deleted = storage.deleteCsvUpload(uploadId);
+      track('csvUpload', uploadId, deleted, null);
+      return deleted;
+    }),
+    deleteCsvUploadsForAccount: accountId => mutate(track => {
+      const removed = storage.getCsvUploadsForAccount(accountId);
+      storage.deleteCsvUploadsForAccount(accountId);
+      removed.forEach(u => track('csvUpload', u.id, u, null));
+    }),
+
+    // Daily Balances
+    saveDailyBalance: balance => mutate(track => {
+      const before = storage.getDailyBalancesForAccount(balance.accountId).find(b => b.date === balance.date);
+      storage.saveDailyBalance(balance);
+      track('dailyBalance', `${balance.accountId}:${balance.date}`, before, balance);
+    }),
+    deleteDailyBalance: (accountId, date) => mutate(track => {
+      const before = storage.getDailyBalancesForAccount(accountId).find(b => b.date === date);
+      storage.deleteDailyBalance(accountId, date);
+      track('dailyBalance', `${accountId}:${date}`, before, null);
+    }),
+    deleteDailyBalancesForItem: itemId => mutate(track => {
+      const removed = storage.getDailyBalances().filter(b => b.itemId === itemId);
+      storage.deleteDailyBalancesForItem(itemId);
+      removed.forEach(b => track('dailyBalance', `${b.accountId}:${b.date}`, b, null));
+    }),
+
+    // Item Removals
+    saveItemRemoval: removal => mutate(track => {
+      const before = storage.getItemRemovals().find(r => r.itemId === removal.itemId);
+      storage.saveItemRemoval(removal);
+      track('itemRemoval', removal.itemId, before, removal);
+    }),
+
+    // Wiping the store is logged as one entry with the record counts it removed
+    clear: () => mutate(track => {
+      const before = {
+        accounts: storage.getAccounts().length,
+        tenants: storage.getTenants().length,
+        rentPayments: storage.getRentPayments().length,
+        transactions: storage.getTransactions().length,
+        syncCursors: storage.getSyncCursors().length,
+        tenantTransactions: storage.getTenantTransactions().length,
+        rejectedMatches: storage.getRejectedMatches().length,
+        csvUploads: storage.getCsvUploads().length,
+        dailyBalances: storage.getDailyBalances().length,
+      };
+      storage.clear();
+      track('store', '*', before, null);
+    }),
+  };
+}
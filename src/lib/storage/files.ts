@@ -0,0 +1,202 @@
+import fs from 'fs';
+import path from 'path';
+import { randomBytes } from 'crypto';
+
+// Shared write path for everything persisted as a file under data/.
+// Writes go to a temp file that is fsynced and renamed over the target, so a
+// crash leaves either the old or the new contents, never a truncated file.
+// Read-modify-write cycles hold a lockfile so concurrent requests (or a CLI
+// script running next to the dev server) can't lose each other's updates.
+
+const LOCK_TIMEOUT_MS = 10_000;
+const LOCK_STALE_MS = 30_000;
+const LOCK_RETRY_MS = 10;
+
+// Locks this process already holds, so nested updates to the same file don't deadlock
+const heldLocks = new Map<string, number>();
+
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+function acquireLock(lockPath: string): void {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  while (true) {
+    try {
+      const fd = fs.openSync(lockPath, 'wx');
+      fs.writeSync(fd, String(process.pid));
+      fs.closeSync(fd);
+      return;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    // Clear locks left behind by a process that died while holding them
+    try {
+      const { mtimeMs } = fs.statSync(lockPath);
+      if (Date.now() - mtimeMs > LOCK_STALE_MS) {
+        fs.rmSync(lockPath, { force: true });
+        continue;
+      }
+    } catch {
+      continue; // Lock was released between openSync and statSync
+    }
+
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for lock on ${path.basename(lockPath, '.lock')}`);
+    }
+    sleepSync(LOCK_RETRY_MS);
+  }
+}
+
+// Take the lock for a file, returning a function that releases it
+export function lockFile(filePath: string): () => void {
+  const lockPath = `${filePath}.lock`;
+  const depth = heldLocks.get(lockPath) || 0;
+
+  if (depth === 0) {
+    acquireLock(lockPath);
+  }
+  heldLocks.set(lockPath, depth + 1);
+
+  return () => {
+    if (depth === 0) {
+      heldLocks.delete(lockPath);
+      fs.rmSync(lockPath, { force: true });
+    } else {
+      heldLocks.set(lockPath, depth);
+    }
+  };
+}
+
+export function withFileLock<T>(filePath: string, fn: () => T): T {
+  const release = lockFile(filePath);
+  try {
+    return fn();
+  } finally {
+    release();
+  }
+}
+
+export function writeFileAtomic(filePath: string, content: string | Buffer): void {
+  const tempPath = `${filePath}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+
+  try {
+    const fd = fs.openSync(tempPath, 'w');
+    try {
+      fs.writeFileSync(fd, content);
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+}
+
+interface JournalEntry {
+  tempPath: string;
+  filePath: string;
+}
+
+// Replace several files as one unit. Every new file is written out first and a
+// journal in `dir` lists the renames; once the journal exists the commit is
+// decided and recoverCommits() finishes it if we crash part-way through.
+// Callers must hold the lock for every file being replaced.
+export function commitFiles(dir: string, files: { filePath: string; content: string }[]): void {
+  const entries: JournalEntry[] = [];
+
+  try {
+    for (const { filePath, content } of files) {
+      const tempPath = `${filePath}.commit.tmp`;
+      writeFileAtomic(tempPath, content);
+      entries.push({ tempPath, filePath });
+    }
+  } catch (error) {
+    entries.forEach(entry => fs.rmSync(entry.tempPath, { force: true }));
+    throw error;
+  }
+
+  const journalPath = path.join(dir, `.commit-${process.pid}-${randomBytes(4).toString('hex')}.journal`);
+  writeFileAtomic(journalPath, JSON.stringify(entries));
+  finishCommit(journalPath);
+}
+
+function finishCommit(journalPath: string): void {
+  const entries: JournalEntry[] = JSON.parse(fs.readFileSync(journalPath, 'utf-8'));
+  for (const { tempPath, filePath } of entries) {
+    try {
+      fs.renameSync(tempPath, filePath);
+    } catch (error) {
+      // Already renamed by an earlier, interrupted attempt
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+  fs.rmSync(journalPath, { force: true });
+}
+
+// Finish any commits in `dir` that were interrupted by a crash
+export function recoverCommits(dir: string): void {
+  if (!fs.existsSync(dir)) {
+    return;
+  }
+  for (const name of fs.readdirSync(dir)) {
+    if (name.startsWith('.commit-') && name.endsWith('.journal')) {
+      finishCommit(path.join(dir, name));
+    }
+  }
+}
+
+export function readJsonFile<T>(filePath: string, defaultValue: T): T {
+  if (!fs.existsSync(filePath)) {
+    return defaultValue;
+  }
+  const content = fs.readFileSync(filePath, 'utf-8');
+  return JSON.parse(content);
+}
+
+export function writeJsonFile<T>(filePath: string, data: T): void {
+  withFileLock(filePath, () => writeFileAtomic(filePath, JSON.stringify(data, null, 2)));
+}
+
+// Read, modify and write a JSON file while holding its lock
+export function updateJsonFile<T>(filePath: string, defaultValue: T, update: (current: T) => T): T {
+  return withFileLock(filePath, () => {
+    const updated = update(readJsonFile(filePath, defaultValue));
+    writeFileAtomic(filePath, JSON.stringify(updated, null, 2));
+    return updated;
+  });
+}
+
+// Append records to a JSON-lines file. Existing lines are never rewritten, so
+// the file can only grow (used for the audit log).
+export function appendJsonLines<T>(filePath: string, records: T[]): void {
+  if (records.length === 0) {
+    return;
+  }
+  const content = records.map(record => JSON.stringify(record) + '\n').join('');
+  withFileLock(filePath, () => {
+    const fd = fs.openSync(filePath, 'a');
+    try {
+      fs.writeSync(fd, content);
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+  });
+}
+
+export function readJsonLines<T>(filePath: string): T[] {
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+  return fs.readFileSync(filePath, 'utf-8')
+    .split('\n')
+    .filter(line => line.trim() !== '')
+    .map(line => JSON.parse(line));
+}
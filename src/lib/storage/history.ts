@@ -0,0 +1,146 @@
+import type {
+  Account,
+  Tenant,
+  Transaction,
+  SyncCursor,
+  TenantTransaction,
+  RejectedMatch,
+  CsvUpload,
+  DailyBalance,
+} from '../data';
+import type { AuditChange, AuditEntityType, Command, StorageAdapter } from './types';
+
+// How many commands are kept on each of the undo and redo stacks
+export const HISTORY_LIMIT = 50;
+
+// What the UI gets: the command without its recorded records
+export type CommandSummary = Omit<Command, 'changes'>;
+
+export function summarizeCommand({ id, operation, description, createdAt }: Command): CommandSummary {
+  return { id, operation, description, createdAt };
+}
+
+// Thrown when a record a command touched has changed since (e.g. a sync
+// removed the transaction), so undoing or redoing it would lose that change
+export class HistoryConflictError extends Error {}
+
+// Read and write access to one kind of record, keyed like its audit entries
+interface EntityStore<T> {
+  list(): T[];
+  key(record: T): string;
+  put(records: T[], current: Map<string, T>): void;
+  remove(records: T[]): void;
+}
+
+// Erases the record type so stores for different collections share one map
+function typed<T>(store: EntityStore<T>): EntityStore<unknown> {
+  return store as EntityStore<unknown>;
+}
+
+function entityStore(storage: StorageAdapter, entityType: AuditEntityType): EntityStore<unknown> {
+  const stores: Partial<Record<AuditEntityType, EntityStore<unknown>>> = {
+    account: typed<Account>({
+      list: storage.getAccounts,
+      key: a => a.id,
+      put: accounts => accounts.forEach(a => storage.saveAccount(a)),
+      remove: accounts => accounts.forEach(a => storage.deleteAccount(a.id)),
+    }),
+    tenant: typed<Tenant>({
+      list: storage.getTenants,
+      key: t => t.id,
+      put: tenants => tenants.forEach(t => storage.saveTenant(t)),
+      remove: tenants => tenants.forEach(t => storage.deleteTenant(t.id)),
+    }),
+    transaction: typed<Transaction>({
+      list: storage.getTransactions,
+      key: t => t.transactionId,
+      put: (transactions, current) => {
+        storage.updateTransactions(transactions.filter(t => current.has(t.transactionId)));
+        storage.saveTransactions(transactions.filter(t => !current.has(t.transactionId)));
+      },
+      remove: transactions => storage.removeTransactions(transactions.map(t => t.transactionId)),
+    }),
+    syncCursor: typed<SyncCursor>({
+      list: storage.getSyncCursors,
+      key: c => c.itemId,
+      put: cursors => cursors.forEach(c => storage.saveSyncCursor(c)),
+      remove: cursors => cursors.forEach(c => storage.deleteSyncCursor(c.itemId)),
+    }),
+    tenantTransaction: typed<TenantTransaction>({
+      list: storage.getTenantTransactions,
+      key: tt => tt.transactionId,
+      put: links => links.forEach(tt => storage.addTenantTransaction(tt)),
+      remove: links => storage.removeTenantTransactions(links.map(tt => tt.transactionId)),
+    }),
+    rejectedMatch: typed<RejectedMatch>({
+      list: storage.getRejectedMatches,
+      key: rm => `${rm.tenantId}:${rm.transactionId}`,
+      put: matches => matches.forEach(rm => storage.addRejectedMatch(rm)),
+      remove: matches => matches.forEach(rm => storage.removeRejectedMatch(rm.tenantId, rm.transactionId)),
+    }),
+    csvUpload: typed<CsvUpload>({
+      list: storage.getCsvUploads,
+      key: u => u.id,
+      put: uploads => uploads.forEach(u => storage.saveCsvUpload(u)),
+      remove: uploads => uploads.forEach(u => storage.deleteCsvUpload(u.id)),
+    }),
+    dailyBalance: typed<DailyBalance>({
+      list: storage.getDailyBalances,
+      key: b => `${b.accountId}:${b.date}`,
+      put: balances => balances.forEach(b => storage.saveDailyBalance(b)),
+      remove: balances => balances.forEach(b => storage.deleteDailyBalance(b.accountId, b.date)),
+    }),
+  };
+
+  const store = stores[entityType];
+  if (!store) {
+    throw new Error(`Changes to ${entityType} records can't be undone`);
+  }
+  return store;
+}
+
+// Set every record in `changes` from `from` to `to`, checking first that each
+// one still holds `from`. Changes are applied in runs of the same entity type
+// so a command touching thousands of transactions reads them once.
+function applyChanges(storage: StorageAdapter, changes: AuditChange[], from: 'before' | 'after'): void {
+  const to = from === 'before' ? 'after' : 'before';
+
+  for (let start = 0; start < changes.length;) {
+    const { entityType } = changes[start];
+    let end = start;
+    while (end < changes.length && changes[end].entityType === entityType) end++;
+    const run = changes.slice(start, end);
+    start = end;
+
+    const store = entityStore(storage, entityType);
+    const current = new Map(store.list().map(record => [store.key(record), record]));
+
+    for (const change of run) {
+      const expected = JSON.stringify(change[from]);
+      const actual = JSON.stringify(current.get(change.entityId) ?? null);
+      if (expected !== actual) {
+        throw new HistoryConflictError(
+          `Some of the records this changed (${entityType} ${change.entityId}) have been modified since, ` +
+          'so it was removed from the history'
+        );
+      }
+    }
+
+    // Undo walks the changes backwards; put restored records back in their original order
+    const puts = run.filter(change => change[to] !== null).map(change => change[to]);
+    if (from === 'after') puts.reverse();
+    const removes = run.filter(change => change[to] === null).map(change => change[from]);
+    if (removes.length > 0) store.remove(removes);
+    if (puts.length > 0) store.put(puts, current);
+  }
+}
+
+// Put every record the command changed back the way it was
+export function revertCommand(storage: StorageAdapter, command: Command): void {
+  applyChanges(storage, [...command.changes].reverse(), 'after');
+}
+
+// Make the command's changes again after it was undone
+export function reapplyCommand(storage: StorageAdapter, command: Command): void {
+  applyChanges(storage, command.changes, 'before');
+}
@@ -0,0 +1,30 @@
+import { readSnapshot, writeSnapshot, type StorageSnapshot } from './snapshot';
+import type { StorageAdapter } from './types';
+
+export type ImportSummary = Record<keyof StorageSnapshot, number>;
+
+// Copy every collection from one adapter into another (e.g. the JSON files in
+// data/ into SQLite). Records that already exist in the target are overwritten,
+// so running it twice is harmless.
+export function copyStorage(source: StorageAdapter, target: StorageAdapter): ImportSummary {
+  const snapshot = readSnapshot(source);
+  writeSnapshot(target, snapshot);
+
+  // Carry over the schema version so already-applied migrations aren't re-run
+  const manifest = source.getSchemaManifest();
+  if (manifest) {
+    target.saveSchemaManifest(manifest);
+  }
+
+  return {
+    accounts: snapshot.accounts.length,
+    tenants: snapshot.tenants.length,
+    rentPayments: snapshot.rentPayments.length,
+    transactions: snapshot.transactions.length,
+    syncCursors: snapshot.syncCursors.length,
+    tenantTransactions: snapshot.tenantTransactions.length,
+    rejectedMatches: snapshot.rejectedMatches.length,
+    csvUploads: snapshot.csvUploads.length,
+    dailyBalances: snapshot.dailyBalances.length,
+  };
+}
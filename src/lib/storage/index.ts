@@ -0,0 +1,52 @@
+import path from 'path';
+import { createJsonStorage } from './json';
+import { createSqliteStorage } from './sqlite';
+import type { StorageAdapter, StorageBackend } from './types';
+
+export type {
+  StorageAdapter,
+  StorageBackend,
+  SchemaManifest,
+  AuditContext,
+  AuditEntityType,
+  AuditEntry,
+  AuditFilter,
+  AuditSource,
+  AuditChange,
+  Command,
+  CommandHistory,
+} from './types';
+export { createJsonStorage } from './json';
+export { createSqliteStorage } from './sqlite';
+export { createAuditedStorage } from './audited';
+export { runMigrations, getMigrationStatus, LATEST_SCHEMA_VERSION, type MigrationStatus } from './migrations';
+export {
+  HISTORY_LIMIT,
+  HistoryConflictError,
+  revertCommand,
+  reapplyCommand,
+  summarizeCommand,
+  type CommandSummary,
+} from './history';
+export { readSnapshot, writeSnapshot, SNAPSHOT_COLLECTIONS, type StorageSnapshot } from './snapshot';
+
+export const DATA_DIR = path.join(process.cwd(), 'data');
+
+// Selected with DATA_STORE=json|sqlite (defaults to json so existing setups keep working)
+export function getStorageBackend(): StorageBackend {
+  const backend = process.env.DATA_STORE || 'json';
+  if (backend !== 'json' && backend !== 'sqlite') {
+    throw new Error(`Unknown DATA_STORE "${backend}". Expected "json" or "sqlite".`);
+  }
+  return backend;
+}
+
+export function getSqlitePath(): string {
+  return process.env.SQLITE_PATH || path.join(DATA_DIR, 'rent-tracker.db');
+}
+
+export function createStorage(backend: StorageBackend = getStorageBackend()): StorageAdapter {
+  return backend === 'sqlite'
+    ? createSqliteStorage(getSqlitePath())
+    : createJsonStorage(DATA_DIR);
+}
@@ -0,0 +1,400 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  appendJsonLines,
+  commitFiles,
+  lockFile,
+  readJsonFile as readFile,
+  readJsonLines,
+  recoverCommits,
+  updateJsonFile as updateFile,
+} from './files';
+import type {
+  Account,
+  Tenant,
+  RentPayment,
+  Transaction,
+  SyncCursor,
+  TenantTransaction,
+  RejectedMatch,
+  CsvUpload,
+  DailyBalance,
+  ItemRemoval,
+  SyncRun,
+  JobRun,
+} from '../data';
+import type { AuditEntry, AuditFilter, CommandHistory, SchemaManifest, StorageAdapter } from './types';
+
+// Original storage: one JSON file per collection inside the data directory.
+// Every call reads (and, for writes, rewrites) the whole file; writes go
+// through the locked, atomic helpers in ./files.
+export function createJsonStorage(dataDir: string): StorageAdapter {
+  if (!fs.existsSync(dataDir)) {
+    fs.mkdirSync(dataDir, { recursive: true });
+  }
+  recoverCommits(dataDir);
+
+  // Inside transaction(): files touched so far (locked until the end), their
+  // working copies, and which of them have been modified
+  let staged: Map<string, unknown> | null = null;
+  const dirty = new Set<string>();
+  const releaseLocks: (() => void)[] = [];
+  const pendingAuditEntries: AuditEntry[] = [];
+
+  function stage<T>(filename: string, defaultValue: T): T {
+    if (!staged!.has(filename)) {
+      const filePath = path.join(dataDir, filename);
+      releaseLocks.push(lockFile(filePath));
+      staged!.set(filename, readFile(filePath, defaultValue));
+    }
+    return staged!.get(filename) as T;
+  }
+
+  function readJsonFile<T>(filename: string, defaultValue: T): T {
+    if (staged) {
+      return structuredClone(stage(filename, defaultValue));
+    }
+    return readFile(path.join(dataDir, filename), defaultValue);
+  }
+
+  function writeJsonFile<T>(filename: string, defaultValue: T, update: (current: T) => T): void {
+    if (staged) {
+      staged.set(filename, update(stage(filename, defaultValue)));
+      dirty.add(filename);
+    } else {
+      updateFile<T>(path.join(dataDir, filename), defaultValue, update);
+    }
+  }
+
+  function updateJsonFile<T>(filename: string, update: (current: T[]) => T[]): void {
+    writeJsonFile<T[]>(filename, [], update);
+  }
+
+  // Stage every change made by fn in memory and write them all at the end, or
+  // none of them if fn throws. Nested calls join the outer transaction.
+  function transaction<T>(fn: () => T): T {
+    if (staged) {
+      return fn();
+    }
+
+    staged = new Map();
+    try {
+      const result = fn();
+      commitFiles(dataDir, [...dirty].map(filename => ({
+        filePath: path.join(dataDir, filename),
+        content: JSON.stringify(staged!.get(filename), null, 2),
+      })));
+      appendJsonLines(auditLogPath, pendingAuditEntries);
+      return result;
+    } finally {
+      releaseLocks.splice(0).forEach(release => release());
+      pendingAuditEntries.length = 0;
+      dirty.clear();
+      staged = null;
+    }
+  }
+
+  // Insert or replace the first record matching `isSame`
+  function upsert<T>(filename: string, record: T, isSame: (existing: T) => boolean): void {
+    updateJsonFile<T>(filename, records => {
+      const existingIndex = records.findIndex(isSame);
+      if (existingIndex >= 0) {
+        records[existingIndex] = record;
+      } else {
+        records.push(record);
+      }
+      return records;
+    });
+  }
+
+  // Accounts
+  const getAccounts = () => readJsonFile<Account[]>('accounts.json', []);
+
+  function saveAccount(account: Account): void {
+    upsert<Account>('accounts.json', account, a => a.id === account.id);
+  }
+
+  function deleteAccount(id: string): void {
+    updateJsonFile<Account>('accounts.json', accounts => accounts.filter(a => a.id !== id));
+  }
+
+  // Tenants
+  const getTenants = () => readJsonFile<Tenant[]>('tenants.json', []);
+
+  function saveTenant(tenant: Tenant): void {
+    upsert<Tenant>('tenants.json', tenant, t => t.id === tenant.id);
+  }
+
+  function deleteTenant(id: string): void {
+    updateJsonFile<Tenant>('tenants.json', tenants => tenants.filter(t => t.id !== id));
+  }
+
+  // Rent Payments
+  const getRentPayments = () => readJsonFile<RentPayment[]>('rent-payments.json', []);
+
+  function saveRentPayment(payment: RentPayment): void {
+    upsert<RentPayment>(
+      'rent-payments.json',
+      payment,
+      p => p.tenantId === payment.tenantId && p.month === payment.month
+    );
+  }
+
+  // Transactions
+  const getTransactions = () => readJsonFile<Transaction[]>('transactions.json', []);
+
+  function saveTransactions(transactions: Transaction[]): void {
+    updateJsonFile<Transaction>('transactions.json', existing => {
+      const existingIds = new Set(existing.map(t => t.transactionId));
+
+      // Add new transactions
+      const newTransactions = transactions.filter(t => !existingIds.has(t.transactionId));
+      return [...existing, ...newTransactions];
+    });
+  }
+
+  function updateTransactions(transactions: Transaction[]): void {
+    const updateMap = new Map(transactions.map(t => [t.transactionId, t]));
+    updateJsonFile<Transaction>('transactions.json', existing =>
+      existing.map(t => updateMap.get(t.transactionId) || t)
+    );
+  }
+
+  function removeTransactions(transactionIds: string[]): void {
+    const idsToRemove = new Set(transactionIds);
+    updateJsonFile<Transaction>('transactions.json', existing =>
+      existing.filter(t => !idsToRemove.has(t.transactionId))
+    );
+  }
+
+  // Sync Cursors
+  const getSyncCursors = () => readJsonFile<SyncCursor[]>('sync-cursors.json', []);
+
+  function saveSyncCursor(cursor: SyncCursor): void {
+    upsert<SyncCursor>('sync-cursors.json', cursor, c => c.itemId === cursor.itemId);
+  }
+
+  function deleteSyncCursor(itemId: string): void {
+    updateJsonFile<SyncCursor>('sync-cursors.json', cursors => cursors.filter(c => c.itemId !== itemId));
+  }
+
+  // Tenant Transactions
+  const getTenantTransactions = () =>
+    readJsonFile<TenantTransaction[]>('tenant-transactions.json', []);
+
+  function addTenantTransaction(link: TenantTransaction): void {
+    updateJsonFile<TenantTransaction>('tenant-transactions.json', existing =>
+      existing.some(tt => tt.transactionId === link.transactionId) ? existing : [...existing, link]
+    );
+  }
+
+  function removeTenantTransactions(transactionIds: string[]): void {
+    const idsToRemove = new Set(transactionIds);
+    updateJsonFile<TenantTransaction>('tenant-transactions.json', existing =>
+      existing.filter(tt => !idsToRemove.has(tt.transactionId))
+    );
+  }
+
+  function removeTenantTransactionsForTenant(tenantId: string): void {
+    updateJsonFile<TenantTransaction>('tenant-transactions.json', existing =>
+      existing.filter(tt => tt.tenantId !== tenantId)
+    );
+  }
+
+  // Rejected Matches
+  const getRejectedMatches = () => readJsonFile<RejectedMatch[]>('rejected-matches.json', []);
+
+  function isMatchRejected(tenantId: string, transactionId: string): boolean {
+    return getRejectedMatches().some(
+      rm => rm.tenantId === tenantId && rm.transactionId === transactionId
+    );
+  }
+
+  function addRejectedMatch(match: RejectedMatch): void {
+    updateJsonFile<RejectedMatch>('rejected-matches.json', existing => {
+      const alreadyRejected = existing.some(
+        rm => rm.tenantId === match.tenantId && rm.transactionId === match.transactionId
+      );
+      return alreadyRejected ? existing : [...existing, match];
+    });
+  }
+
+  function removeRejectedMatch(tenantId: string, transactionId: string): void {
+    updateJsonFile<RejectedMatch>('rejected-matches.json', existing =>
+      existing.filter(rm => !(rm.tenantId === tenantId && rm.transactionId === transactionId))
+    );
+  }
+
+  function removeRejectedMatchesForTenant(tenantId: string): void {
+    updateJsonFile<RejectedMatch>('rejected-matches.json', existing =>
+      existing.filter(rm => rm.tenantId !== tenantId)
+    );
+  }
+
+  function removeRejectedMatchesForTransactions(transactionIds: string[]): void {
+    const idsToRemove = new Set(transactionIds);
+    updateJsonFile<RejectedMatch>('rejected-matches.json', existing =>
+      existing.filter(rm => !idsToRemove.has(rm.transactionId))
+    );
+  }
+
+  // CSV Uploads
+  const getCsvUploads = () => readJsonFile<CsvUpload[]>('csv-uploads.json', []);
+
+  function saveCsvUpload(upload: CsvUpload): void {
+    upsert<CsvUpload>('csv-uploads.json', upload, u => u.id === upload.id);
+  }
+
+  function deleteCsvUpload(uploadId: string): CsvUpload | null {
+    let deleted: CsvUpload | null = null;
+    updateJsonFile<CsvUpload>('csv-uploads.json', uploads => {
+      deleted = uploads.find(u => u.id === uploadId) || null;
+      return deleted ? uploads.filter(u => u.id !== uploadId) : uploads;
+    });
+    return deleted;
+  }
+
+  function deleteCsvUploadsForAccount(accountId: string): void {
+    updateJsonFile<CsvUpload>('csv-uploads.json', uploads =>
+      uploads.filter(u => u.accountId !== accountId)
+    );
+  }
+
+  // Daily Balances
+  const getDailyBalances = () => readJsonFile<DailyBalance[]>('daily-balances.json', []);
+
+  function saveDailyBalance(balance: DailyBalance): void {
+    upsert<DailyBalance>(
+      'daily-balances.json',
+      balance,
+      b => b.accountId === balance.accountId && b.date === balance.date
+    );
+  }
+
+  function deleteDailyBalance(accountId: string, date: string): void {
+    updateJsonFile<DailyBalance>('daily-balances.json', balances =>
+      balances.filter(b => !(b.accountId === accountId && b.date === date))
+    );
+  }
+
+  function deleteDailyBalancesForItem(itemId: string): void {
+    updateJsonFile<DailyBalance>('daily-balances.json', balances =>
+      balances.filter(b => b.itemId !== itemId)
+    );
+  }
+
+  // Item Removals
+  const getItemRemovals = () => readJsonFile<ItemRemoval[]>('item-removals.json', []);
+
+  function saveItemRemoval(removal: ItemRemoval): void {
+    upsert<ItemRemoval>('item-removals.json', removal, r => r.itemId === removal.itemId);
+  }
+
+  // Audit log: one JSON entry per line, only ever appended to. Entries made
+  // inside a transaction are held back until its files have been committed.
+  const auditLogPath = path.join(dataDir, 'audit-log.jsonl');
+
+  function appendAuditEntries(entries: AuditEntry[]): void {
+    if (staged) {
+      pendingAuditEntries.push(...entries);
+    } else {
+      appendJsonLines(auditLogPath, entries);
+    }
+  }
+
+  function getAuditEntries(filter: AuditFilter): AuditEntry[] {
+    const entries = readJsonLines<AuditEntry>(auditLogPath).filter(entry =>
+      (!filter.entityType || entry.entityType === filter.entityType) &&
+      (!filter.entityId || entry.entityId === filter.entityId) &&
+      (!filter.source || entry.source === filter.source) &&
+      (!filter.from || entry.timestamp >= filter.from) &&
+      (!filter.to || entry.timestamp <= filter.to)
+    );
+    entries.reverse();
+    return filter.limit ? entries.slice(0, filter.limit) : entries;
+  }
+
+  const COLLECTION_FILES = [
+    'accounts.json',
+    'tenants.json',
+    'rent-payments.json',
+    'transactions.json',
+    'sync-cursors.json',
+    'tenant-transactions.json',
+    'rejected-matches.json',
+    'csv-uploads.json',
+    'daily-balances.json',
+  ];
+
+  function clear(): void {
+    transaction(() => {
+      COLLECTION_FILES.forEach(filename => updateJsonFile(filename, () => []));
+    });
+  }
+
+  return {
+    getAccounts,
+    saveAccount,
+    deleteAccount,
+    getTenants,
+    saveTenant,
+    deleteTenant,
+    getRentPayments,
+    getRentPaymentsForMonth: month => getRentPayments().filter(p => p.month === month),
+    saveRentPayment,
+    getTransactions,
+    getTransactionsByDateRange: (startDate, endDate) =>
+      getTransactions().filter(t => t.date >= startDate && t.date <= endDate),
+    getDeposits: () => getTransactions().filter(t => t.amount < 0),
+    getDepositsByDateRange: (startDate, endDate) =>
+      getTransactions().filter(t => t.amount < 0 && t.date >= startDate && t.date <= endDate),
+    saveTransactions,
+    updateTransactions,
+    removeTransactions,
+    getSyncCursors,
+    getSyncCursor: itemId => getSyncCursors().find(c => c.itemId === itemId),
+    saveSyncCursor,
+    deleteSyncCursor,
+    getTenantTransactions,
+    getTenantTransactionsForTenant: tenantId =>
+      getTenantTransactions().filter(tt => tt.tenantId === tenantId),
+    getTenantTransactionByTransactionId: transactionId =>
+      getTenantTransactions().find(tt => tt.transactionId === transactionId),
+    addTenantTransaction,
+    removeTenantTransactions,
+    removeTenantTransactionsForTenant,
+    getRejectedMatches,
+    addRejectedMatch,
+    isMatchRejected,
+    removeRejectedMatch,
+    removeRejectedMatchesForTenant,
+    removeRejectedMatchesForTransactions,
+    getCsvUploads,
+    getCsvUploadsForAccount: accountId => getCsvUploads().filter(u => u.accountId === accountId),
+    saveCsvUpload,
+    deleteCsvUpload,
+    deleteCsvUploadsForAccount,
+    getDailyBalances,
+    getDailyBalancesForAccount: accountId => getDailyBalances().filter(b => b.accountId === accountId),
+    saveDailyBalance,
+    deleteDailyBalance,
+    deleteDailyBalancesForItem,
+    getItemRemovals,
+    saveItemRemoval,
+    getSchemaManifest: () => readJsonFile<SchemaManifest | null>('schema.json', null),
+    saveSchemaManifest: manifest =>
+      writeJsonFile<SchemaManifest | null>('schema.json', null, () => manifest),
+    appendAuditEntries,
+    getAuditEntries,
+    getSyncRuns: () => readJsonFile<SyncRun[]>('sync-runs.json', []),
+    saveSyncRuns: runs => writeJsonFile<SyncRun[]>('sync-runs.json', [], () => runs),
+    getJobRuns: () => readJsonFile<JobRun[]>('job-runs.json', []),
+    saveJobRuns: runs => writeJsonFile<JobRun[]>('job-runs.json', [], () => runs),
+    getCommandHistory: () =>
+      readJsonFile<CommandHistory>('command-history.json', { undo: [], redo: [] }),
+    saveCommandHistory: history =>
+      writeJsonFile<CommandHistory>('command-history.json', { undo: [], redo: [] }, () => history),
+    clear,
+    transaction,
+  };
+}
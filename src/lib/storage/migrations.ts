@@ -0,0 +1,213 @@
+import type { Account, Tenant } from '../data';
+import { encryptSecret, hasEncryptionKey, isEncryptedSecret } from '../secrets';
+import { DEFAULT_CURRENCY } from '../currency';
+import type { SchemaManifest, StorageAdapter } from './types';
+
+export interface Migration {
+  version: number;
+  name: string;
+  description: string;
+  up(storage: StorageAdapter): void;
+}
+
+// Ordered list of data migrations. Append new ones with the next version
+// number; never edit or reorder a migration that has shipped. Each `up` must
+// be safe to run against data that is already in the new shape.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'tenant-match-mode',
+    description: 'Default matchMode, exactAmounts and searchTerms on tenants created before exact-amount matching',
+    up(storage) {
+      for (const tenant of storage.getTenants() as Partial<Tenant>[]) {
+        if (tenant.matchMode && tenant.exactAmounts && tenant.searchTerms) continue;
+        storage.saveTenant({
+          ...tenant,
+          matchMode: tenant.matchMode || 'searchTerms',
+          exactAmounts: tenant.exactAmounts || [],
+          searchTerms: tenant.searchTerms || [],
+        } as Tenant);
+      }
+    },
+  },
+  {
+    version: 2,
+    name: 'account-linked-accounts',
+    description: 'Default linkedAccounts and institutionId on accounts saved before they were recorded',
+    up(storage) {
+      for (const account of storage.getAccounts() as Partial<Account>[]) {
+        if (account.linkedAccounts && account.institutionId !== undefined) continue;
+        storage.saveAccount({
+          ...account,
+          linkedAccounts: account.linkedAccounts || [],
+          institutionId: account.institutionId ?? null,
+        } as Account);
+      }
+    },
+  },
+  {
+    version: 3,
+    name: 'encrypt-access-tokens',
+    description: 'Encrypt Plaid access tokens that were stored in plain text (needs TOKEN_ENCRYPTION_KEY)',
+    up(storage) {
+      const plaintext = storage.getAccounts().filter(account => account.accessToken && !isEncryptedSecret(account.accessToken));
+      if (plaintext.length === 0) return;
+
+      // Migrations run when the data layer loads, so throwing here would fail
+      // every route, including those that never touch Plaid. The tokens stay
+      // as they are; `npm run tokens:rotate` encrypts them once there's a key.
+      if (!hasEncryptionKey()) {
+        console.warn(
+          `${plaintext.length} Plaid access token${plaintext.length === 1 ? ' is' : 's are'} stored in plain text and ` +
+          'TOKEN_ENCRYPTION_KEY is not set to encrypt them. Add a key to .env.local ' +
+          '(generate one with: openssl rand -base64 32) and run `npm run tokens:rotate`.'
+        );
+        return;
+      }
+
+      storage.transaction(() => {
+        for (const account of plaintext) {
+          storage.saveAccount({ ...account, accessToken: encryptSecret(account.accessToken) });
+        }
+      });
+    },
+  },
+  {
+    version: 4,
+    name: 'account-item-health',
+    description: 'Default lastErrorCode, lastErrorAt and needsReauth on accounts saved before item health was tracked',
+    up(storage) {
+      for (const account of storage.getAccounts() as Partial<Account>[]) {
+        if (account.lastErrorCode !== undefined && account.lastErrorAt !== undefined && account.needsReauth !== undefined) continue;
+        storage.saveAccount({
+          ...account,
+          lastErrorCode: account.lastErrorCode ?? null,
+          lastErrorAt: account.lastErrorAt ?? null,
+          needsReauth: account.needsReauth ?? false,
+        } as Account);
+      }
+    },
+  },
+  {
+    version: 5,
+    name: 'linked-account-balances',
+    description: 'Default balance on linked accounts saved before balances were recorded',
+    up(storage) {
+      for (const account of storage.getAccounts()) {
+        if (account.linkedAccounts.every(linked => linked.balance !== undefined)) continue;
+        storage.saveAccount({
+          ...account,
+          linkedAccounts: account.linkedAccounts.map(linked => ({ ...linked, balance: linked.balance ?? null })),
+        });
+      }
+    },
+  },
+  {
+    version: 6,
+    name: 'linked-account-excluded',
+    description: 'Default excluded on linked accounts saved before they could be excluded from syncing',
+    up(storage) {
+      for (const account of storage.getAccounts()) {
+        if (account.linkedAccounts.every(linked => linked.excluded !== undefined)) continue;
+        storage.saveAccount({
+          ...account,
+          linkedAccounts: account.linkedAccounts.map(linked => ({ ...linked, excluded: linked.excluded ?? false })),
+        });
+      }
+    },
+  },
+  {
+    version: 7,
+    name: 'iso-currency-codes',
+    description: 'Default isoCurrencyCode to USD on transactions, tenants and linked accounts saved before currencies were recorded',
+    up(storage) {
+      storage.transaction(() => {
+        const transactions = storage.getTransactions().filter(txn => !txn.isoCurrencyCode);
+        if (transactions.length > 0) {
+          storage.updateTransactions(transactions.map(txn => ({ ...txn, isoCurrencyCode: DEFAULT_CURRENCY })));
+        }
+
+        for (const tenant of storage.getTenants()) {
+          if (tenant.isoCurrencyCode) continue;
+          storage.saveTenant({ ...tenant, isoCurrencyCode: DEFAULT_CURRENCY });
+        }
+
+        for (const account of storage.getAccounts()) {
+          if (account.linkedAccounts.every(linked => linked.isoCurrencyCode)) continue;
+          storage.saveAccount({
+            ...account,
+            linkedAccounts: account.linkedAccounts.map(linked => ({
+              ...linked,
+              isoCurrencyCode: linked.isoCurrencyCode || DEFAULT_CURRENCY,
+            })),
+          });
+        }
+      });
+    },
+  },
+  {
+    version: 8,
+    name: 'account-csv-profiles',
+    description: 'Default csvProfile on accounts saved before CSV column mappings were stored',
+    up(storage) {
+      for (const account of storage.getAccounts()) {
+        if (account.csvProfile !== undefined) continue;
+        storage.saveAccount({ ...account, csvProfile: null });
+      }
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export interface MigrationStatus {
+  currentVersion: number;
+  latestVersion: number;
+  applied: SchemaManifest['migrations'];
+  pending: Pick<Migration, 'version' | 'name' | 'description'>[];
+}
+
+export function getMigrationStatus(storage: StorageAdapter): MigrationStatus {
+  const manifest = storage.getSchemaManifest();
+  const currentVersion = manifest?.version || 0;
+
+  return {
+    currentVersion,
+    latestVersion: LATEST_SCHEMA_VERSION,
+    applied: manifest?.migrations || [],
+    pending: MIGRATIONS
+      .filter(m => m.version > currentVersion)
+      .map(({ version, name, description }) => ({ version, name, description })),
+  };
+}
+
+// Apply every pending migration in order, recording each one in the manifest
+// as it completes so a failure part-way resumes from the right place.
+export function runMigrations(storage: StorageAdapter): number[] {
+  const manifest: SchemaManifest = storage.getSchemaManifest() || { version: 0, migrations: [] };
+
+  if (manifest.version > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `Data schema version ${manifest.version} is newer than this app supports (${LATEST_SCHEMA_VERSION})`
+    );
+  }
+
+  const applied: number[] = [];
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= manifest.version) continue;
+
+    migration.up(storage);
+
+    manifest.version = migration.version;
+    manifest.migrations.push({
+      version: migration.version,
+      name: migration.name,
+      appliedAt: new Date().toISOString(),
+    });
+    storage.saveSchemaManifest(manifest);
+    applied.push(migration.version);
+  }
+
+  return applied;
+}
@@ -0,0 +1,73 @@
+import type {
+  Account,
+  Tenant,
+  RentPayment,
+  Transaction,
+  SyncCursor,
+  TenantTransaction,
+  RejectedMatch,
+  CsvUpload,
+  DailyBalance,
+} from '../data';
+import type { StorageAdapter } from './types';
+
+// Every collection in the store, as plain arrays
+export interface StorageSnapshot {
+  accounts: Account[];
+  tenants: Tenant[];
+  rentPayments: RentPayment[];
+  transactions: Transaction[];
+  syncCursors: SyncCursor[];
+  tenantTransactions: TenantTransaction[];
+  rejectedMatches: RejectedMatch[];
+  csvUploads: CsvUpload[];
+  dailyBalances: DailyBalance[];
+}
+
+export const SNAPSHOT_COLLECTIONS: (keyof StorageSnapshot)[] = [
+  'accounts',
+  'tenants',
+  'rentPayments',
+  'transactions',
+  'syncCursors',
+  'tenantTransactions',
+  'rejectedMatches',
+  'csvUploads',
+  'dailyBalances',
+];
+
+export function readSnapshot(storage: StorageAdapter): StorageSnapshot {
+  return storage.transaction(() => ({
+    accounts: storage.getAccounts(),
+    tenants: storage.getTenants(),
+    rentPayments: storage.getRentPayments(),
+    transactions: storage.getTransactions(),
+    syncCursors: storage.getSyncCursors(),
+    tenantTransactions: storage.getTenantTransactions(),
+    rejectedMatches: storage.getRejectedMatches(),
+    csvUploads: storage.getCsvUploads(),
+    dailyBalances: storage.getDailyBalances(),
+  }));
+}
+
+// Write a snapshot into the store. Records that already exist (same ID) are
+// overwritten with the snapshot's version; everything else is left alone.
+export function writeSnapshot(storage: StorageAdapter, snapshot: StorageSnapshot): void {
+  storage.transaction(() => {
+    snapshot.accounts.forEach(storage.saveAccount);
+    snapshot.tenants.forEach(storage.saveTenant);
+    snapshot.rentPayments.forEach(storage.saveRentPayment);
+
+    storage.saveTransactions(snapshot.transactions);
+    storage.updateTransactions(snapshot.transactions);
+
+    snapshot.syncCursors.forEach(storage.saveSyncCursor);
+
+    storage.removeTenantTransactions(snapshot.tenantTransactions.map(tt => tt.transactionId));
+    snapshot.tenantTransactions.forEach(storage.addTenantTransaction);
+
+    snapshot.rejectedMatches.forEach(storage.addRejectedMatch);
+    snapshot.csvUploads.forEach(storage.saveCsvUpload);
+    snapshot.dailyBalances.forEach(storage.saveDailyBalance);
+  });
+}
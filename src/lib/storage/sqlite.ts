@@ -0,0 +1,422 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type {
+  Account,
+  Tenant,
+  RentPayment,
+  Transaction,
+  SyncCursor,
+  TenantTransaction,
+  RejectedMatch,
+  CsvUpload,
+  DailyBalance,
+  ItemRemoval,
+  SyncRun,
+  JobRun,
+} from '../data';
+import type { AuditEntry, AuditFilter, CommandHistory, SchemaManifest, StorageAdapter } from './types';
+
+// Each table keeps the full record as JSON in `data`, plus the columns we
+// filter or join on pulled out so they can be indexed. Adding a field to one
+// of the interfaces in data.ts therefore doesn't need a schema change.
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS accounts (
+    id TEXT PRIMARY KEY,
+    item_id TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_accounts_item_id ON accounts(item_id);
+
+  CREATE TABLE IF NOT EXISTS tenants (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS rent_payments (
+    tenant_id TEXT NOT NULL,
+    month TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (tenant_id, month)
+  );
+  CREATE INDEX IF NOT EXISTS idx_rent_payments_month ON rent_payments(month);
+
+  CREATE TABLE IF NOT EXISTS transactions (
+    transaction_id TEXT PRIMARY KEY,
+    item_id TEXT NOT NULL,
+    date TEXT NOT NULL,
+    amount REAL NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_transactions_date ON transactions(date);
+  CREATE INDEX IF NOT EXISTS idx_transactions_item_id ON transactions(item_id);
+
+  CREATE TABLE IF NOT EXISTS sync_cursors (
+    item_id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS tenant_transactions (
+    transaction_id TEXT PRIMARY KEY,
+    tenant_id TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_tenant_transactions_tenant_id ON tenant_transactions(tenant_id);
+
+  CREATE TABLE IF NOT EXISTS rejected_matches (
+    tenant_id TEXT NOT NULL,
+    transaction_id TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (tenant_id, transaction_id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_rejected_matches_transaction_id ON rejected_matches(transaction_id);
+
+  CREATE TABLE IF NOT EXISTS csv_uploads (
+    id TEXT PRIMARY KEY,
+    account_id TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_csv_uploads_account_id ON csv_uploads(account_id);
+
+  CREATE TABLE IF NOT EXISTS daily_balances (
+    account_id TEXT NOT NULL,
+    date TEXT NOT NULL,
+    item_id TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (account_id, date)
+  );
+  CREATE INDEX IF NOT EXISTS idx_daily_balances_item_id ON daily_balances(item_id);
+
+  CREATE TABLE IF NOT EXISTS item_removals (
+    item_id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS audit_log (
+    id TEXT PRIMARY KEY,
+    timestamp TEXT NOT NULL,
+    entity_type TEXT NOT NULL,
+    entity_id TEXT NOT NULL,
+    source TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_audit_log_timestamp ON audit_log(timestamp);
+  CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity_type, entity_id);
+
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+`;
+
+export function createSqliteStorage(dbPath: string): StorageAdapter {
+  fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+
+  const db = new Database(dbPath);
+  db.pragma('journal_mode = WAL');
+  db.exec(SCHEMA);
+
+  // Prepared statements are cached by SQL text
+  const statements = new Map<string, Database.Statement>();
+  function stmt(sql: string): Database.Statement {
+    let prepared = statements.get(sql);
+    if (!prepared) {
+      prepared = db.prepare(sql);
+      statements.set(sql, prepared);
+    }
+    return prepared;
+  }
+
+  // Rows come back in insertion order to match the JSON files
+  function all<T>(sql: string, ...params: unknown[]): T[] {
+    const rows = stmt(sql).all(...params) as { data: string }[];
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  function one<T>(sql: string, ...params: unknown[]): T | undefined {
+    const row = stmt(sql).get(...params) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : undefined;
+  }
+
+  function run(sql: string, ...params: unknown[]): void {
+    stmt(sql).run(...params);
+  }
+
+  function runEach<T>(items: T[], fn: (item: T) => void): void {
+    db.transaction(() => items.forEach(fn))();
+  }
+
+  // Accounts
+  function saveAccount(account: Account): void {
+    run(
+      `INSERT INTO accounts (id, item_id, data) VALUES (?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET item_id = excluded.item_id, data = excluded.data`,
+      account.id, account.itemId, JSON.stringify(account)
+    );
+  }
+
+  // Tenants
+  function saveTenant(tenant: Tenant): void {
+    run(
+      `INSERT INTO tenants (id, data) VALUES (?, ?)
+       ON CONFLICT(id) DO UPDATE SET data = excluded.data`,
+      tenant.id, JSON.stringify(tenant)
+    );
+  }
+
+  // Rent Payments
+  function saveRentPayment(payment: RentPayment): void {
+    run(
+      `INSERT INTO rent_payments (tenant_id, month, data) VALUES (?, ?, ?)
+       ON CONFLICT(tenant_id, month) DO UPDATE SET data = excluded.data`,
+      payment.tenantId, payment.month, JSON.stringify(payment)
+    );
+  }
+
+  // Transactions
+  function saveTransactions(transactions: Transaction[]): void {
+    runEach(transactions, t => run(
+      `INSERT OR IGNORE INTO transactions (transaction_id, item_id, date, amount, data)
+       VALUES (?, ?, ?, ?, ?)`,
+      t.transactionId, t.itemId, t.date, t.amount, JSON.stringify(t)
+    ));
+  }
+
+  function updateTransactions(transactions: Transaction[]): void {
+    runEach(transactions, t => run(
+      `UPDATE transactions SET item_id = ?, date = ?, amount = ?, data = ?
+       WHERE transaction_id = ?`,
+      t.itemId, t.date, t.amount, JSON.stringify(t), t.transactionId
+    ));
+  }
+
+  function removeTransactions(transactionIds: string[]): void {
+    runEach(transactionIds, id => run('DELETE FROM transactions WHERE transaction_id = ?', id));
+  }
+
+  // Sync Cursors
+  function saveSyncCursor(cursor: SyncCursor): void {
+    run(
+      `INSERT INTO sync_cursors (item_id, data) VALUES (?, ?)
+       ON CONFLICT(item_id) DO UPDATE SET data = excluded.data`,
+      cursor.itemId, JSON.stringify(cursor)
+    );
+  }
+
+  // Tenant Transactions
+  function addTenantTransaction(link: TenantTransaction): void {
+    run(
+      'INSERT OR IGNORE INTO tenant_transactions (transaction_id, tenant_id, data) VALUES (?, ?, ?)',
+      link.transactionId, link.tenantId, JSON.stringify(link)
+    );
+  }
+
+  function removeTenantTransactions(transactionIds: string[]): void {
+    runEach(transactionIds, id =>
+      run('DELETE FROM tenant_transactions WHERE transaction_id = ?', id)
+    );
+  }
+
+  // Rejected Matches
+  function addRejectedMatch(match: RejectedMatch): void {
+    run(
+      'INSERT OR IGNORE INTO rejected_matches (tenant_id, transaction_id, data) VALUES (?, ?, ?)',
+      match.tenantId, match.transactionId, JSON.stringify(match)
+    );
+  }
+
+  function removeRejectedMatchesForTransactions(transactionIds: string[]): void {
+    runEach(transactionIds, id =>
+      run('DELETE FROM rejected_matches WHERE transaction_id = ?', id)
+    );
+  }
+
+  // CSV Uploads
+  function saveCsvUpload(upload: CsvUpload): void {
+    run(
+      `INSERT INTO csv_uploads (id, account_id, data) VALUES (?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET account_id = excluded.account_id, data = excluded.data`,
+      upload.id, upload.accountId, JSON.stringify(upload)
+    );
+  }
+
+  function deleteCsvUpload(uploadId: string): CsvUpload | null {
+    const upload = one<CsvUpload>('SELECT data FROM csv_uploads WHERE id = ?', uploadId);
+    if (!upload) return null;
+    run('DELETE FROM csv_uploads WHERE id = ?', uploadId);
+    return upload;
+  }
+
+  // Daily Balances
+  function saveDailyBalance(balance: DailyBalance): void {
+    run(
+      `INSERT INTO daily_balances (account_id, date, item_id, data) VALUES (?, ?, ?, ?)
+       ON CONFLICT(account_id, date) DO UPDATE SET item_id = excluded.item_id, data = excluded.data`,
+      balance.accountId, balance.date, balance.itemId, JSON.stringify(balance)
+    );
+  }
+
+  // Item Removals
+  function saveItemRemoval(removal: ItemRemoval): void {
+    run(
+      `INSERT INTO item_removals (item_id, data) VALUES (?, ?)
+       ON CONFLICT(item_id) DO UPDATE SET data = excluded.data`,
+      removal.itemId, JSON.stringify(removal)
+    );
+  }
+
+  // Audit Log (rows are only ever inserted)
+  function appendAuditEntries(entries: AuditEntry[]): void {
+    runEach(entries, entry => run(
+      `INSERT INTO audit_log (id, timestamp, entity_type, entity_id, source, data)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      entry.id, entry.timestamp, entry.entityType, entry.entityId, entry.source, JSON.stringify(entry)
+    ));
+  }
+
+  function getAuditEntries(filter: AuditFilter): AuditEntry[] {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    const columns = [
+      ['entity_type = ?', filter.entityType],
+      ['entity_id = ?', filter.entityId],
+      ['source = ?', filter.source],
+      ['timestamp >= ?', filter.from],
+      ['timestamp <= ?', filter.to],
+    ] as const;
+
+    for (const [condition, value] of columns) {
+      if (value) {
+        conditions.push(condition);
+        params.push(value);
+      }
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const limit = filter.limit ? `LIMIT ${Math.floor(filter.limit)}` : '';
+    return all<AuditEntry>(`SELECT data FROM audit_log ${where} ORDER BY rowid DESC ${limit}`, ...params);
+  }
+
+  const COLLECTION_TABLES = [
+    'accounts',
+    'tenants',
+    'rent_payments',
+    'transactions',
+    'sync_cursors',
+    'tenant_transactions',
+    'rejected_matches',
+    'csv_uploads',
+    'daily_balances',
+  ];
+
+  return {
+    getAccounts: () => all<Account>('SELECT data FROM accounts ORDER BY rowid'),
+    saveAccount,
+    deleteAccount: id => run('DELETE FROM accounts WHERE id = ?', id),
+    getTenants: () => all<Tenant>('SELECT data FROM tenants ORDER BY rowid'),
+    saveTenant,
+    deleteTenant: id => run('DELETE FROM tenants WHERE id = ?', id),
+    getRentPayments: () => all<RentPayment>('SELECT data FROM rent_payments ORDER BY rowid'),
+    getRentPaymentsForMonth: month =>
+      all<RentPayment>('SELECT data FROM rent_payments WHERE month = ? ORDER BY rowid', month),
+    saveRentPayment,
+    getTransactions: () => all<Transaction>('SELECT data FROM transactions ORDER BY rowid'),
+    getTransactionsByDateRange: (startDate, endDate) => all<Transaction>(
+      'SELECT data FROM transactions WHERE date >= ? AND date <= ? ORDER BY rowid',
+      startDate, endDate
+    ),
+    getDeposits: () =>
+      all<Transaction>('SELECT data FROM transactions WHERE amount < 0 ORDER BY rowid'),
+    getDepositsByDateRange: (startDate, endDate) => all<Transaction>(
+      'SELECT data FROM transactions WHERE amount < 0 AND date >= ? AND date <= ? ORDER BY rowid',
+      startDate, endDate
+    ),
+    saveTransactions,
+    updateTransactions,
+    removeTransactions,
+    getSyncCursors: () => all<SyncCursor>('SELECT data FROM sync_cursors ORDER BY rowid'),
+    getSyncCursor: itemId =>
+      one<SyncCursor>('SELECT data FROM sync_cursors WHERE item_id = ?', itemId),
+    saveSyncCursor,
+    deleteSyncCursor: itemId => run('DELETE FROM sync_cursors WHERE item_id = ?', itemId),
+    getTenantTransactions: () =>
+      all<TenantTransaction>('SELECT data FROM tenant_transactions ORDER BY rowid'),
+    getTenantTransactionsForTenant: tenantId => all<TenantTransaction>(
+      'SELECT data FROM tenant_transactions WHERE tenant_id = ? ORDER BY rowid',
+      tenantId
+    ),
+    getTenantTransactionByTransactionId: transactionId => one<TenantTransaction>(
+      'SELECT data FROM tenant_transactions WHERE transaction_id = ?',
+      transactionId
+    ),
+    addTenantTransaction,
+    removeTenantTransactions,
+    removeTenantTransactionsForTenant: tenantId =>
+      run('DELETE FROM tenant_transactions WHERE tenant_id = ?', tenantId),
+    getRejectedMatches: () =>
+      all<RejectedMatch>('SELECT data FROM rejected_matches ORDER BY rowid'),
+    addRejectedMatch,
+    isMatchRejected: (tenantId, transactionId) => !!stmt(
+      'SELECT 1 FROM rejected_matches WHERE tenant_id = ? AND transaction_id = ?'
+    ).get(tenantId, transactionId),
+    removeRejectedMatch: (tenantId, transactionId) => run(
+      'DELETE FROM rejected_matches WHERE tenant_id = ? AND transaction_id = ?',
+      tenantId, transactionId
+    ),
+    removeRejectedMatchesForTenant: tenantId =>
+      run('DELETE FROM rejected_matches WHERE tenant_id = ?', tenantId),
+    removeRejectedMatchesForTransactions,
+    getCsvUploads: () => all<CsvUpload>('SELECT data FROM csv_uploads ORDER BY rowid'),
+    getCsvUploadsForAccount: accountId =>
+      all<CsvUpload>('SELECT data FROM csv_uploads WHERE account_id = ? ORDER BY rowid', accountId),
+    saveCsvUpload,
+    deleteCsvUpload,
+    deleteCsvUploadsForAccount: accountId =>
+      run('DELETE FROM csv_uploads WHERE account_id = ?', accountId),
+    getDailyBalances: () => all<DailyBalance>('SELECT data FROM daily_balances ORDER BY rowid'),
+    getDailyBalancesForAccount: accountId => all<DailyBalance>(
+      'SELECT data FROM daily_balances WHERE account_id = ? ORDER BY rowid',
+      accountId
+    ),
+    saveDailyBalance,
+    deleteDailyBalance: (accountId, date) =>
+      run('DELETE FROM daily_balances WHERE account_id = ? AND date = ?', accountId, date),
+    deleteDailyBalancesForItem: itemId =>
+      run('DELETE FROM daily_balances WHERE item_id = ?', itemId),
+    getItemRemovals: () => all<ItemRemoval>('SELECT data FROM item_removals ORDER BY rowid'),
+    saveItemRemoval,
+    getSchemaManifest: () =>
+      one<SchemaManifest>("SELECT data FROM meta WHERE key = 'schema'") || null,
+    saveSchemaManifest: manifest => run(
+      `INSERT INTO meta (key, data) VALUES ('schema', ?)
+       ON CONFLICT(key) DO UPDATE SET data = excluded.data`,
+      JSON.stringify(manifest)
+    ),
+    appendAuditEntries,
+    getAuditEntries,
+    getSyncRuns: () => one<SyncRun[]>("SELECT data FROM meta WHERE key = 'syncRuns'") || [],
+    saveSyncRuns: runs => run(
+      `INSERT INTO meta (key, data) VALUES ('syncRuns', ?)
+       ON CONFLICT(key) DO UPDATE SET data = excluded.data`,
+      JSON.stringify(runs)
+    ),
+    getJobRuns: () => one<JobRun[]>("SELECT data FROM meta WHERE key = 'jobRuns'") || [],
+    saveJobRuns: runs => run(
+      `INSERT INTO meta (key, data) VALUES ('jobRuns', ?)
+       ON CONFLICT(key) DO UPDATE SET data = excluded.data`,
+      JSON.stringify(runs)
+    ),
+    getCommandHistory: () =>
+      one<CommandHistory>("SELECT data FROM meta WHERE key = 'commandHistory'") || { undo: [], redo: [] },
+    saveCommandHistory: history => run(
+      `INSERT INTO meta (key, data) VALUES ('commandHistory', ?)
+       ON CONFLICT(key) DO UPDATE SET data = excluded.data`,
+      JSON.stringify(history)
+    ),
+    clear: () => db.transaction(() => {
+      COLLECTION_TABLES.forEach(table => run(`DELETE FROM ${table}`));
+    })(),
+    // better-sqlite3 turns nested transactions into savepoints
+    transaction: fn => db.transaction(fn)(),
+  };
+}
@@ -0,0 +1,185 @@
+import type {
+  Account,
+  Tenant,
+  RentPayment,
+  Transaction,
+  SyncCursor,
+  TenantTransaction,
+  RejectedMatch,
+  CsvUpload,
+  DailyBalance,
+  ItemRemoval,
+  SyncRun,
+  JobRun,
+} from '../data';
+
+// Every read/write the data layer needs. Implementations must keep the same
+// semantics as the original JSON-file functions (e.g. saveTransactions skips
+// transactions whose ID already exists).
+export interface StorageAdapter {
+  // Accounts
+  getAccounts(): Account[];
+  saveAccount(account: Account): void;
+  deleteAccount(id: string): void;
+
+  // Tenants
+  getTenants(): Tenant[];
+  saveTenant(tenant: Tenant): void;
+  deleteTenant(id: string): void;
+
+  // Rent Payments (one per tenant per month)
+  getRentPayments(): RentPayment[];
+  getRentPaymentsForMonth(month: string): RentPayment[];
+  saveRentPayment(payment: RentPayment): void;
+
+  // Transactions
+  getTransactions(): Transaction[];
+  getTransactionsByDateRange(startDate: string, endDate: string): Transaction[];
+  getDeposits(): Transaction[];
+  getDepositsByDateRange(startDate: string, endDate: string): Transaction[];
+  saveTransactions(transactions: Transaction[]): void;
+  updateTransactions(transactions: Transaction[]): void;
+  removeTransactions(transactionIds: string[]): void;
+
+  // Sync Cursors
+  getSyncCursors(): SyncCursor[];
+  getSyncCursor(itemId: string): SyncCursor | undefined;
+  saveSyncCursor(cursor: SyncCursor): void;
+  deleteSyncCursor(itemId: string): void;
+
+  // Tenant Transactions
+  getTenantTransactions(): TenantTransaction[];
+  getTenantTransactionsForTenant(tenantId: string): TenantTransaction[];
+  getTenantTransactionByTransactionId(transactionId: string): TenantTransaction | undefined;
+  addTenantTransaction(link: TenantTransaction): void;
+  removeTenantTransactions(transactionIds: string[]): void;
+  removeTenantTransactionsForTenant(tenantId: string): void;
+
+  // Rejected Matches
+  getRejectedMatches(): RejectedMatch[];
+  addRejectedMatch(match: RejectedMatch): void;
+  isMatchRejected(tenantId: string, transactionId: string): boolean;
+  removeRejectedMatch(tenantId: string, transactionId: string): void;
+  removeRejectedMatchesForTenant(tenantId: string): void;
+  removeRejectedMatchesForTransactions(transactionIds: string[]): void;
+
+  // CSV Uploads
+  getCsvUploads(): CsvUpload[];
+  getCsvUploadsForAccount(accountId: string): CsvUpload[];
+  saveCsvUpload(upload: CsvUpload): void;
+  deleteCsvUpload(uploadId: string): CsvUpload | null;
+  deleteCsvUploadsForAccount(accountId: string): void;
+
+  // Daily Balances (one per linked account per day)
+  getDailyBalances(): DailyBalance[];
+  getDailyBalancesForAccount(accountId: string): DailyBalance[];
+  saveDailyBalance(balance: DailyBalance): void;
+  deleteDailyBalance(accountId: string, date: string): void;
+  deleteDailyBalancesForItem(itemId: string): void;
+
+  // Item Removals (revocations of deleted accounts' Plaid items)
+  getItemRemovals(): ItemRemoval[];
+  saveItemRemoval(removal: ItemRemoval): void;
+
+  // Sync runs, most recent first (see saveSyncRun in data.ts)
+  getSyncRuns(): SyncRun[];
+  saveSyncRuns(runs: SyncRun[]): void;
+
+  // Background job runs, most recent first (see saveJobRun in data.ts)
+  getJobRuns(): JobRun[];
+  saveJobRuns(runs: JobRun[]): void;
+
+  // Schema manifest (null until the first migration run)
+  getSchemaManifest(): SchemaManifest | null;
+  saveSchemaManifest(manifest: SchemaManifest): void;
+
+  // Audit log (append-only)
+  appendAuditEntries(entries: AuditEntry[]): void;
+  getAuditEntries(filter: AuditFilter): AuditEntry[];
+
+  // Undo/redo history of reversible commands (see history.ts)
+  getCommandHistory(): CommandHistory;
+  saveCommandHistory(history: CommandHistory): void;
+
+  // Remove every record from every collection (the schema manifest, audit log,
+  // sync and job runs and item removals, which track Plaid's state rather than
+  // ours, are kept)
+  clear(): void;
+
+  // Run fn as a unit of work: either every change it makes is stored, or (if
+  // it throws) none are. Nested calls join the outer transaction.
+  transaction<T>(fn: () => T): T;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  appliedAt: string;       // ISO timestamp
+}
+
+// Records which migrations have been applied to the stored data
+export interface SchemaManifest {
+  version: number;
+  migrations: AppliedMigration[];
+}
+
+// What caused a change: the dashboard user, a background process, or the app itself
+export type AuditSource = 'user' | 'auto-match' | 'plaid-sync' | 'csv-import' | 'restore' | 'system';
+
+export type AuditEntityType =
+  | 'account'
+  | 'tenant'
+  | 'rentPayment'
+  | 'transaction'
+  | 'syncCursor'
+  | 'tenantTransaction'
+  | 'rejectedMatch'
+  | 'csvUpload'
+  | 'dailyBalance'
+  | 'itemRemoval'
+  | 'store';
+
+// One change to one record
+export interface AuditEntry {
+  id: string;
+  timestamp: string;       // ISO timestamp
+  source: AuditSource;
+  route?: string;          // e.g. "DELETE /api/data/accounts"
+  operation?: string;      // data.ts function that made the change, e.g. "reEvaluateTenantMatches"
+  entityType: AuditEntityType;
+  entityId: string;
+  action: 'create' | 'update' | 'delete';
+  before: unknown | null;
+  after: unknown | null;
+}
+
+// The part of an entry describing the change itself
+export type AuditChange = Pick<AuditEntry, 'entityType' | 'entityId' | 'action' | 'before' | 'after'>;
+
+// Attribution shared by every entry recorded for one change
+export type AuditContext = Pick<AuditEntry, 'source' | 'route' | 'operation'>;
+
+export interface AuditFilter {
+  entityType?: AuditEntityType;
+  entityId?: string;
+  source?: AuditSource;
+  from?: string;           // ISO timestamp, inclusive
+  to?: string;             // ISO timestamp, inclusive
+  limit?: number;          // newest entries first
+}
+
+// A user action that can be undone: every record it changed, before and after
+export interface Command {
+  id: string;
+  operation: string;       // data.ts function, e.g. "deleteTenant"
+  description: string;     // shown to the user, e.g. "Deleted tenant Jane Doe"
+  createdAt: string;       // ISO timestamp
+  changes: AuditChange[];  // in the order they were made
+}
+
+export interface CommandHistory {
+  undo: Command[];         // most recent last
+  redo: Command[];         // most recently undone last
+}
+
+export type StorageBackend = 'json' | 'sqlite';
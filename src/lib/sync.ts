@@ -0,0 +1,376 @@
+import { randomUUID } from 'crypto';
+import type { PaymentMeta, Transaction as PlaidTransaction } from 'plaid';
+import {
+  getLinkedAccounts,
+  getPlaidErrorCode,
+  getPlaidErrorMessage,
+  isTransientPlaidError,
+  syncItemTransactions,
+} from './plaid';
+import { DEFAULT_CURRENCY } from './currency';
+import { recordItemError, recordSyncSucceeded } from './itemHealth';
+import {
+  getExcludedAccountIds,
+  reconcilePendingTransactions,
+  recordBalances,
+  replaceItemTransactions,
+  saveTransactions,
+  updateTransactions,
+  removeTransactions,
+  getSyncCursor,
+  saveSyncCursor,
+  saveSyncRun,
+  type Account,
+  type SyncRun,
+  type SyncRunItem,
+  type Transaction,
+  type TransactionPaymentMeta,
+} from './data';
+
+export interface SyncResult {
+  added: number;
+  modified: number;
+  removed: number;
+}
+
+// How often a sync has had to work around Plaid so far
+interface SyncStats {
+  restarts: number;
+  retries: number;
+}
+
+// Plaid asks for pagination to start over from the first cursor when an
+// item's transactions change between pages
+const MAX_PAGINATION_RESTARTS = 3;
+
+// Rate-limited and failed-on-Plaid's-side calls are retried after 1s, 2s, 4s
+// and 8s (plus up to half as much again, so items don't retry in lockstep)
+const MAX_RETRIES = 4;
+const RETRY_BASE_DELAY_MS = 1000;
+
+// Bank connections synced at once by syncAccounts
+const SYNC_CONCURRENCY = Number(process.env.PLAID_SYNC_CONCURRENCY) || 3;
+
+function toTransaction(txn: PlaidTransaction, itemId: string): Transaction {
+  return {
+    transactionId: txn.transaction_id,
+    accountId: txn.account_id,
+    itemId,
+    amount: txn.amount,
+    isoCurrencyCode: txn.iso_currency_code || txn.unofficial_currency_code || DEFAULT_CURRENCY,
+    date: txn.date,
+    name: txn.name,
+    merchantName: txn.merchant_name || undefined,
+    category: txn.category || undefined,
+    pending: txn.pending,
+    pendingTransactionId: txn.pending_transaction_id || undefined,
+    originalDescription: txn.original_description || undefined,
+    authorizedDate: txn.authorized_date || undefined,
+    paymentChannel: txn.payment_channel,
+    personalFinanceCategory: txn.personal_finance_category
+      ? { primary: txn.personal_finance_category.primary, detailed: txn.personal_finance_category.detailed }
+      : undefined,
+    paymentMeta: toPaymentMeta(txn.payment_meta),
+    counterparties: txn.counterparties?.length
+      ? txn.counterparties.map(c => ({ name: c.name, type: c.type }))
+      : undefined,
+  };
+}
+
+// Left off when the bank filled in none of it
+function toPaymentMeta(meta: PaymentMeta | undefined): TransactionPaymentMeta | undefined {
+  if (!meta) return undefined;
+  const paymentMeta: TransactionPaymentMeta = {
+    payer: meta.payer,
+    payee: meta.payee,
+    byOrderOf: meta.by_order_of,
+    referenceNumber: meta.reference_number,
+    paymentMethod: meta.payment_method,
+  };
+  return Object.values(paymentMeta).some(Boolean) ? paymentMeta : undefined;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function withRetries<T>(call: () => Promise<T>, stats: SyncStats): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await call();
+    } catch (error) {
+      if (attempt >= MAX_RETRIES || !isTransientPlaidError(error)) {
+        throw error;
+      }
+      stats.retries++;
+      const delay = RETRY_BASE_DELAY_MS * 2 ** attempt;
+      await sleep(delay + Math.random() * delay / 2);
+    }
+  }
+}
+
+// Syncs already running, by itemId. A webhook and the Sync button can ask for
+// the same item at once; the second caller waits for the first instead of
+// replaying the same cursor.
+const inFlight = new Map<string, { sync: Promise<SyncResult>; stats: SyncStats }>();
+
+// Run pull as the item's sync, recording its outcome on the account
+function launch(account: Account, pull: (stats: SyncStats) => Promise<SyncResult>) {
+  const stats: SyncStats = { restarts: 0, retries: 0 };
+  const sync = pull(stats)
+    .then(result => {
+      recordSyncSucceeded(account.itemId);
+      return result;
+    })
+    .catch(error => {
+      const errorCode = getPlaidErrorCode(error);
+      if (errorCode) {
+        recordItemError(account.itemId, errorCode);
+      }
+      throw error;
+    })
+    .finally(() => inFlight.delete(account.itemId));
+  const running = { sync, stats };
+  inFlight.set(account.itemId, running);
+  return running;
+}
+
+function startSync(account: Account) {
+  return inFlight.get(account.itemId) || launch(account, stats => pullChanges(account, stats));
+}
+
+// Pull every change for one bank connection since its saved cursor and store
+// it. Plaid errors are recorded on the account (see itemHealth.ts) and rethrown.
+export function syncAccount(account: Account): Promise<SyncResult> {
+  return startSync(account).sync;
+}
+
+export interface BackfillProgress {
+  pages: number;           // pages fetched so far
+  fetched: number;         // transactions fetched so far
+  historyStatus: string | null; // Plaid's transactions_update_status, e.g. "HISTORICAL_UPDATE_COMPLETE"
+}
+
+// Fetch an item's entire history again from an empty cursor and replace what's
+// stored with it (see replaceItemTransactions). Nothing changes until every
+// page is in. A sync of the item already running finishes first; syncs asked
+// for meanwhile wait for this instead.
+export async function backfillAccount(
+  account: Account,
+  onProgress?: (progress: BackfillProgress) => void
+): Promise<SyncResult> {
+  let running;
+  while ((running = inFlight.get(account.itemId))) {
+    await running.sync.catch(() => undefined);
+  }
+  return launch(account, stats => pullHistory(account, stats, onProgress)).sync;
+}
+
+// Sync several bank connections, a few at a time, recording the run and each
+// connection's outcome (see getSyncRuns). One bank failing doesn't stop the
+// others; CSV accounts are skipped.
+export async function syncAccounts(accounts: Account[], trigger: SyncRun['trigger']): Promise<SyncRun> {
+  const plaidAccounts = accounts.filter(a => a.accessToken);
+  const results: SyncRunItem[] = new Array(plaidAccounts.length);
+  const run: SyncRun = {
+    id: randomUUID(),
+    trigger,
+    startedAt: new Date().toISOString(),
+    finishedAt: null,
+    items: [],
+  };
+  saveSyncRun(run);
+
+  let next = 0;
+  async function worker() {
+    while (next < plaidAccounts.length) {
+      const index = next++;
+      results[index] = await syncItem(plaidAccounts[index]);
+      saveSyncRun({ ...run, items: results.filter(Boolean) });
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(SYNC_CONCURRENCY, plaidAccounts.length) }, worker));
+
+  const finished = { ...run, finishedAt: new Date().toISOString(), items: results };
+  saveSyncRun(finished);
+  return finished;
+}
+
+async function syncItem(account: Account): Promise<SyncRunItem> {
+  const started = Date.now();
+  const { sync, stats } = startSync(account);
+  const item = {
+    itemId: account.itemId,
+    accountId: account.id,
+    institution: account.institution,
+  };
+
+  try {
+    const result = await sync;
+    return {
+      ...item,
+      status: 'succeeded',
+      ...result,
+      errorCode: null,
+      error: null,
+      ...stats,
+      durationMs: Date.now() - started,
+    };
+  } catch (error) {
+    console.error(`Error syncing ${account.institution}:`, error);
+    return {
+      ...item,
+      status: 'failed',
+      added: 0,
+      modified: 0,
+      removed: 0,
+      errorCode: getPlaidErrorCode(error),
+      error: getPlaidErrorMessage(error),
+      ...stats,
+      durationMs: Date.now() - started,
+    };
+  }
+}
+
+interface Changes {
+  added: Transaction[];
+  modified: Transaction[];
+  removed: string[];
+  cursor: string;
+  pages: number;
+  historyStatus: string | null;
+}
+
+// Page through /transactions/sync from the cursor until Plaid has nothing more
+async function fetchChanges(
+  account: Account,
+  startCursor: string,
+  stats: SyncStats,
+  onPage?: (changes: Changes) => void
+): Promise<Changes> {
+  const changes: Changes = {
+    added: [],
+    modified: [],
+    removed: [],
+    cursor: startCursor,
+    pages: 0,
+    historyStatus: null,
+  };
+  let hasMore = true;
+
+  // Linked accounts the user excluded aren't stored at all
+  const excluded = getExcludedAccountIds();
+  const tracked = (txn: PlaidTransaction) => !excluded.has(txn.account_id);
+
+  while (hasMore) {
+    const response = await withRetries(
+      () => syncItemTransactions(account, changes.cursor || undefined),
+      stats
+    );
+
+    changes.added.push(...response.data.added.filter(tracked).map(txn => toTransaction(txn, account.itemId)));
+    changes.modified.push(...response.data.modified.filter(tracked).map(txn => toTransaction(txn, account.itemId)));
+
+    for (const txn of response.data.removed) {
+      if (txn.transaction_id) {
+        changes.removed.push(txn.transaction_id);
+      }
+    }
+
+    hasMore = response.data.has_more;
+    changes.cursor = response.data.next_cursor;
+    changes.pages++;
+    changes.historyStatus = response.data.transactions_update_status || null;
+    onPage?.(changes);
+  }
+
+  return changes;
+}
+
+// fetchChanges, starting over from the same cursor if Plaid reports the data
+// changed between pages. Nothing is stored until every page has been fetched,
+// so starting over only throws away pages held in memory.
+async function fetchAllChanges(
+  account: Account,
+  startCursor: string,
+  stats: SyncStats,
+  onPage?: (changes: Changes) => void
+): Promise<Changes> {
+  for (;;) {
+    try {
+      return await fetchChanges(account, startCursor, stats, onPage);
+    } catch (error) {
+      if (
+        getPlaidErrorCode(error) !== 'TRANSACTIONS_SYNC_MUTATION_DURING_PAGINATION' ||
+        stats.restarts >= MAX_PAGINATION_RESTARTS
+      ) {
+        throw error;
+      }
+      stats.restarts++;
+      console.warn(`Transactions for ${account.institution} changed while syncing; starting over`);
+    }
+  }
+}
+
+function saveCursor(account: Account, changes: Changes): void {
+  saveSyncCursor({
+    itemId: account.itemId,
+    cursor: changes.cursor,
+    lastSynced: new Date().toISOString(),
+  });
+}
+
+// Balances come from a separate call; failing it shouldn't undo the sync
+async function refreshBalances(account: Account, stats: SyncStats): Promise<void> {
+  try {
+    recordBalances(account.itemId, await withRetries(() => getLinkedAccounts(account), stats));
+  } catch (error) {
+    console.error(`Error fetching balances for ${account.institution}:`, error);
+  }
+}
+
+async function pullChanges(account: Account, stats: SyncStats): Promise<SyncResult> {
+  // Get existing cursor for this account, or start fresh
+  const startCursor = getSyncCursor(account.itemId)?.cursor || '';
+  const changes = await fetchAllChanges(account, startCursor, stats);
+
+  // Save to local storage
+  if (changes.added.length > 0) {
+    saveTransactions(changes.added);
+    // Before the pending transactions they replace are removed below
+    reconcilePendingTransactions(changes.added);
+  }
+  if (changes.modified.length > 0) {
+    updateTransactions(changes.modified);
+  }
+  if (changes.removed.length > 0) {
+    removeTransactions(changes.removed);
+  }
+
+  // Save the cursor for next time
+  saveCursor(account, changes);
+  await refreshBalances(account, stats);
+
+  return {
+    added: changes.added.length,
+    modified: changes.modified.length,
+    removed: changes.removed.length,
+  };
+}
+
+// From an empty cursor Plaid sends the item's current history as additions
+async function pullHistory(
+  account: Account,
+  stats: SyncStats,
+  onProgress?: (progress: BackfillProgress) => void
+): Promise<SyncResult> {
+  const changes = await fetchAllChanges(account, '', stats, ({ pages, added, historyStatus }) =>
+    onProgress?.({ pages, fetched: added.length, historyStatus })
+  );
+
+  const { added, updated, removed } = replaceItemTransactions(account.itemId, changes.added);
+  saveCursor(account, changes);
+  await refreshBalances(account, stats);
+
+  return { added, modified: updated, removed };
+}